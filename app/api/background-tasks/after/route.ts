@@ -16,6 +16,7 @@ import { after } from 'next/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
 import { writeTaskToGcs, type BackgroundTaskData } from '@/lib/background-tasks/gcs-writer';
+import { startBackgroundTask } from '@/lib/server-lifecycle';
 
 // Note: Cannot use `export const runtime = 'nodejs'` with cacheComponents enabled
 // Routes default to Node.js runtime, which is correct for after() and GCS operations
@@ -30,6 +31,9 @@ export async function POST(request: NextRequest) {
 
   console.log(`[BackgroundTasks] after() triggered: taskId=${taskId}, delay=${delay}ms`);
 
+  // Track the callback so a graceful shutdown waits for the GCS marker write
+  const backgroundTask = startBackgroundTask(`after:${taskId}`);
+
   // Register the after() callback - this runs AFTER the response is sent
   after(async () => {
     console.log(`[BackgroundTasks] after() callback starting: taskId=${taskId}`);
@@ -74,6 +78,8 @@ export async function POST(request: NextRequest) {
         // Can't write error state, just log
         console.error(`[BackgroundTasks] Failed to write error state: taskId=${taskId}`);
       }
+    } finally {
+      backgroundTask.finish();
     }
   });
 
@@ -1,4 +1,5 @@
 import { cacheLife } from 'next/cache';
+import { getRecordedCacheHit } from '@/lib/request-context';
 
 /**
  * Expensive computation test route
@@ -42,8 +43,11 @@ export async function GET() {
     const data = await computeFibonacci();
     const totalTime = Date.now() - startTime;
 
-    // If cached, total time should be much less than compute time
-    const cacheHit = totalTime < 20;
+    // Hit or miss as recorded by the 'use cache' handler (served via server.ts).
+    // Without a recorded lookup, fall back to timing: a cached result skips
+    // the ~50-100ms Fibonacci computation
+    const recordedHit = getRecordedCacheHit();
+    const cacheHit = recordedHit ?? totalTime < 20;
 
     console.log(`[API] /api/cache-components/computation - Completed in ${totalTime}ms (cache ${cacheHit ? 'HIT' : 'MISS'})`);
 
@@ -54,6 +58,7 @@ export async function GET() {
       operation: 'cpu-computation',
       total_time_ms: totalTime,
       cache_hit: cacheHit,
+      cache_hit_source: recordedHit === undefined ? 'timing' : 'cache-handler',
       fetched_at: new Date().toISOString(),
       description: 'Caches expensive CPU computation (Fibonacci)',
     });
@@ -1,4 +1,5 @@
 import { cacheLife } from 'next/cache';
+import { getRecordedCacheHit } from '@/lib/request-context';
 
 /**
  * Database query simulation test route
@@ -43,8 +44,10 @@ export async function GET() {
     const data = await queryDatabase();
     const totalTime = Date.now() - startTime;
 
-    // If cached, total time should be much less than query time
-    const cacheHit = totalTime < 50;
+    // server.ts records the handler's lookup; under plain `next dev` nothing
+    // is recorded, and a response well under the 200ms query delay is a hit
+    const recordedHit = getRecordedCacheHit();
+    const cacheHit = recordedHit ?? totalTime < 50;
 
     console.log(`[API] /api/cache-components/db-query - Completed in ${totalTime}ms (cache ${cacheHit ? 'HIT' : 'MISS'})`);
 
@@ -55,6 +58,7 @@ export async function GET() {
       operation: 'database-query',
       total_time_ms: totalTime,
       cache_hit: cacheHit,
+      cache_hit_source: recordedHit === undefined ? 'timing' : 'cache-handler',
       fetched_at: new Date().toISOString(),
       description: 'Simulates caching of database query operations',
     });
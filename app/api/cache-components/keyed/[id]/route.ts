@@ -1,4 +1,5 @@
 import { cacheLife } from 'next/cache';
+import { getRecordedCacheHit } from '@/lib/request-context';
 
 /**
  * Cache key validation test route
@@ -37,8 +38,10 @@ export async function GET(
     const data = await fetchById(id);
     const duration = Date.now() - startTime;
 
-    // If cached, duration should be much less than 100ms
-    const cacheHit = duration < 50;
+    // The lookup for this id's cache key, if server.ts recorded one; otherwise
+    // a response well under the 100ms fetch delay means it came from cache
+    const recordedHit = getRecordedCacheHit();
+    const cacheHit = recordedHit ?? duration < 50;
 
     console.log(`[API] /api/cache-components/keyed/${id} - Completed in ${duration}ms (cache ${cacheHit ? 'HIT' : 'MISS'})`);
 
@@ -50,6 +53,7 @@ export async function GET(
       id_used: id,
       duration_ms: duration,
       cache_hit: cacheHit,
+      cache_hit_source: recordedHit === undefined ? 'timing' : 'cache-handler',
       fetched_at: new Date().toISOString(),
       description: 'Function arguments become part of cache key',
     });
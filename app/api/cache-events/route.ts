@@ -0,0 +1,33 @@
+import { NextRequest, connection } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import { createCacheEventStream } from '@/lib/cache-dashboard';
+
+/**
+ * Live cache events for /cache-dashboard (see lib/cache-dashboard.ts).
+ *
+ * GET /api/cache-events - text/event-stream of cache entries, requests with
+ * their Surrogate-Key, revalidations and hit ratios per route.
+ *
+ * Requires an admin token with the `read-stats` scope. EventSource cannot
+ * send an Authorization header, so the dashboard reads the stream with
+ * fetch().
+ */
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  await connection();
+
+  return new Response(createCacheEventStream(request.signal), {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      // no-transform keeps compression from buffering the stream
+      'Cache-Control': 'private, no-cache, no-store, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
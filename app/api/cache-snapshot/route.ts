@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import {
+  CACHE_ENTRY_TYPES,
+  CACHE_LAYERS,
+  type CacheEntryFilter,
+  type CacheEntryType,
+} from '@/lib/cache-inspector';
+import { exportCacheSnapshot, importCacheSnapshot, validateSnapshot } from '@/lib/cache-snapshot';
+import { getRequester, recordInvalidation } from '@/lib/revalidation/audit-log';
+import { isDryRunRequested, type CacheLayer } from '@/lib/revalidation/impact';
+
+/**
+ * Cache snapshots for warm starts (see lib/cache-snapshot.ts).
+ *
+ * GET /api/cache-snapshot exports both layers as a versioned JSON archive:
+ *   ?layer=, &type=, &tag=, &prefix= - same filters as /api/cache-stats
+ * Archives stop at CACHE_SNAPSHOT_MAX_BYTES and are then marked `truncated`.
+ *
+ * POST /api/cache-snapshot imports an archive (the request body) into the
+ * current backend:
+ *   ?dry_run=true          - report what would be imported
+ *   &overwrite=true        - replace entries that already exist
+ *   &ignore_build_id=true  - import route and 'use cache' entries taken
+ *                            from a different build
+ *
+ * The archive is validated as a whole first; if it is invalid nothing is
+ * written (400). Expired entries are skipped. The response lists imported,
+ * skipped and failed keys per layer (207 if any failed). Imports are audit
+ * logged.
+ *
+ *   curl -H "Authorization: Bearer $TEST_TOKEN" https://test.example.com/api/cache-snapshot -o snapshot.json
+ *   curl -X POST -H "Authorization: Bearer $LIVE_TOKEN" --data-binary @snapshot.json https://live.example.com/api/cache-snapshot
+ */
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+};
+
+function badRequest(message: string, errors?: string[]) {
+  return NextResponse.json(
+    { error: 'Invalid snapshot request', message, ...(errors && { errors }) },
+    { status: 400, headers: NO_STORE_HEADERS }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  const params = new URL(request.url).searchParams;
+  const layer = params.get('layer');
+  const type = params.get('type');
+
+  if (layer && !CACHE_LAYERS.includes(layer as CacheLayer)) {
+    return badRequest(`layer must be one of: ${CACHE_LAYERS.join(', ')}`);
+  }
+  if (type && !CACHE_ENTRY_TYPES.includes(type as CacheEntryType)) {
+    return badRequest(`type must be one of: ${CACHE_ENTRY_TYPES.join(', ')}`);
+  }
+
+  const filter: CacheEntryFilter = {
+    layer: (layer as CacheLayer) || undefined,
+    type: (type as CacheEntryType) || undefined,
+    tag: params.get('tag') || undefined,
+    prefix: params.get('prefix') || undefined,
+  };
+
+  try {
+    const snapshot = await exportCacheSnapshot(filter);
+    const filename = `cache-snapshot-${snapshot.build_id || 'dev'}-${snapshot.created_at.replace(/[:.]/g, '-')}.json`;
+
+    console.log(`[API] Cache snapshot exported - ${snapshot.entry_count} entries (${snapshot.backend}, build ${snapshot.build_id || 'unknown'}), skipped ${snapshot.skipped.expired} expired, ${snapshot.skipped.unreadable} unreadable${snapshot.truncated ? `, ${snapshot.skipped.over_limit} over CACHE_SNAPSHOT_MAX_BYTES` : ''}`);
+
+    return NextResponse.json(snapshot, {
+      headers: {
+        ...NO_STORE_HEADERS,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('[API] /api/cache-snapshot - Export error:', error);
+
+    return NextResponse.json({
+      error: 'Failed to export cache snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500, headers: NO_STORE_HEADERS });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'purge');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const params = new URL(request.url).searchParams;
+  const options = {
+    dryRun: isDryRunRequested(params.get('dry_run')),
+    overwrite: params.get('overwrite') === 'true',
+    ignoreBuildId: params.get('ignore_build_id') === 'true',
+  };
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest('Request body must be a snapshot exported by GET /api/cache-snapshot');
+  }
+
+  const validation = validateSnapshot(body);
+  if (!validation.ok) {
+    console.error('[API] Rejected cache snapshot:', validation.errors.slice(0, 10));
+    return badRequest('Invalid snapshot, nothing was imported', validation.errors);
+  }
+  const { snapshot } = validation;
+
+  try {
+    const startTime = Date.now();
+    const result = await importCacheSnapshot(snapshot, options);
+    const failed = result.layers.cacheHandler.failed.length + result.layers.cacheHandlers.failed.length;
+    const skipped = result.layers.cacheHandler.skipped.length + result.layers.cacheHandlers.skipped.length;
+
+    console.log(`[API] Cache snapshot ${options.dryRun ? 'import dry run' : 'imported'} (build ${snapshot.build_id || 'unknown'} -> ${result.build.current || 'unknown'}) - cacheHandler: ${result.layers.cacheHandler.imported}, cacheHandlers: ${result.layers.cacheHandlers.imported}, skipped: ${skipped}, failed: ${failed}`);
+
+    if (!options.dryRun) {
+      await recordInvalidation({
+        source: 'api/cache-snapshot',
+        operation: 'snapshot-import',
+        requester: getRequester(request.headers, `admin:${auth.principal}`),
+        startTime,
+        duration_ms: Date.now() - startTime,
+        targets: [{
+          key: `snapshot:${snapshot.created_at}`,
+          outcome: failed > 0 ? 'error' : 'success',
+          origin: `imported ${result.imported}`,
+          ...(failed > 0 && { message: `${failed} entries could not be written` }),
+        }],
+        details: {
+          options,
+          build: result.build,
+          backend: result.backend,
+          imported: {
+            cacheHandler: result.layers.cacheHandler.imported,
+            cacheHandlers: result.layers.cacheHandlers.imported,
+          },
+          skipped,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      message: options.dryRun
+        ? `Would import ${result.imported} of ${snapshot.entries.length} cache entries`
+        : `Imported ${result.imported} of ${snapshot.entries.length} cache entries`,
+      timestamp: new Date().toISOString(),
+      snapshot: {
+        created_at: snapshot.created_at,
+        backend: snapshot.backend,
+        entry_count: snapshot.entries.length,
+      },
+      ...result,
+    }, {
+      status: failed > 0 ? 207 : 200,
+      headers: NO_STORE_HEADERS,
+    });
+
+  } catch (error) {
+    console.error('[API] /api/cache-snapshot - Import error:', error);
+
+    return NextResponse.json({
+      error: 'Failed to import cache snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500, headers: NO_STORE_HEADERS });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { getCacheEntry } from '@/lib/cache-inspector';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+
+/**
+ * A single cache entry.
+ *
+ * GET /api/cache-stats/<key> - full metadata (storage location, stored
+ * lifetimes, response status and headers) and the first 2 KB of the
+ * payload. Keys are the `key` values listed by /api/cache-stats, URL-encoded.
+ */
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+};
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  await connection();
+  const { key } = await params;
+
+  try {
+    const entry = await getCacheEntry(key);
+    if (!entry) {
+      return NextResponse.json({ error: `Cache entry ${key} not found` }, { status: 404, headers: NO_STORE_HEADERS });
+    }
+
+    return NextResponse.json({ entry }, { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    console.error(`[API] /api/cache-stats/${key} - Error:`, error);
+
+    return NextResponse.json(
+      { error: 'Failed to read cache entry', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: NO_STORE_HEADERS }
+    );
+  }
+}
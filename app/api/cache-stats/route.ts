@@ -1,52 +1,129 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getSharedCacheStats, clearSharedCache, getUseCacheStats } from '@pantheon-systems/nextjs-cache-handler';
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import {
+  CACHE_ENTRY_TYPES,
+  CACHE_LAYERS,
+  decodeCursor,
+  deleteCacheEntries,
+  listCacheEntries,
+  type CacheDeleteSelector,
+  type CacheEntryQuery,
+  type CacheEntryType,
+} from '@/lib/cache-inspector';
+import { getRequester, recordInvalidation } from '@/lib/revalidation/audit-log';
+import { isDryRunRequested, type CacheLayer } from '@/lib/revalidation/impact';
 
-export async function GET(_request: NextRequest) {
-  try {
-    // Get stats from both cache systems in parallel
-    const [legacyStats, useCacheStats] = await Promise.all([
-      getSharedCacheStats(),
-      getUseCacheStats(),
-    ]);
+/**
+ * Cache entry inspection (see lib/cache-inspector.ts).
+ *
+ * GET /api/cache-stats
+ *   ?layer=cacheHandlers   - cacheHandler (fetch, routes) | cacheHandlers ('use cache')
+ *   &type=fetch            - fetch | route | use-cache
+ *   &tag=post-list         - entries carrying this tag
+ *   &prefix=use-cache:     - key prefix
+ *   &min_age=60            - written at least this many seconds ago
+ *   &max_age=3600          - written at most this many seconds ago
+ *   &limit=50              - page size (1-500)
+ *   &cursor=...            - next_cursor of the previous page
+ *
+ * With a tag filter a page may hold fewer than `limit` entries (at most 1000
+ * objects are read per page); keep following next_cursor until it is null.
+ *
+ * Each entry has its size, tags, last-modified time and the seconds left
+ * until it goes stale, needs revalidation or expires. Details and a payload
+ * preview: GET /api/cache-stats/<key>.
+ *
+ * DELETE /api/cache-stats clears origin cache entries from both layers:
+ *   ?layer=, &type=, &tag=, &prefix= - same filters as GET (none: everything)
+ *   &key=fetch:5f1c...              - a single entry
+ *   &dry_run=true                    - report what would be removed
+ *
+ * The response lists the removed keys per layer, static routes that were
+ * kept, and failures (status 207 if any). Clears are audit logged.
+ */
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function badRequest(message: string) {
+  return NextResponse.json(
+    { error: 'Invalid query', message },
+    {
+      status: 400,
+      headers: {
+        'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+      },
+    }
+  );
+}
+
+function parseSeconds(value: string | null): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
 
-    console.log(`[API] Cache stats - Legacy: ${legacyStats.size}, UseCache: ${useCacheStats.size}`);
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  const params = new URL(request.url).searchParams;
+  const layer = params.get('layer');
+  const type = params.get('type');
+  const limit = parseInt(params.get('limit') || String(DEFAULT_LIMIT), 10);
+  const minAge = parseSeconds(params.get('min_age'));
+  const maxAge = parseSeconds(params.get('max_age'));
+  const cursor = params.get('cursor');
 
-    // Combine entries from both systems
-    const combinedEntries = [
-      ...legacyStats.entries,
-      ...useCacheStats.entries,
-    ];
+  if (layer && !CACHE_LAYERS.includes(layer as CacheLayer)) {
+    return badRequest(`layer must be one of: ${CACHE_LAYERS.join(', ')}`);
+  }
+  if (type && !CACHE_ENTRY_TYPES.includes(type as CacheEntryType)) {
+    return badRequest(`type must be one of: ${CACHE_ENTRY_TYPES.join(', ')}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  if (minAge === null || maxAge === null) {
+    return badRequest('min_age and max_age must be whole seconds');
+  }
+  if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) {
+    return badRequest('min_age must not exceed max_age');
+  }
+  if (cursor) {
+    try {
+      decodeCursor(cursor);
+    } catch {
+      return badRequest('cursor is not a next_cursor from this endpoint');
+    }
+  }
 
-    const combinedKeys = [
-      ...legacyStats.keys,
-      ...useCacheStats.keys,
-    ];
+  const query: CacheEntryQuery = {
+    layer: (layer as CacheLayer) || undefined,
+    type: (type as CacheEntryType) || undefined,
+    tag: params.get('tag') || undefined,
+    prefix: params.get('prefix') || undefined,
+    min_age_seconds: minAge,
+    max_age_seconds: maxAge,
+    cursor: cursor || undefined,
+    limit,
+  };
+
+  try {
+    const page = await listCacheEntries(query);
+
+    console.log(`[API] Cache stats - ${page.entries.length} entries, ${page.scanned} scanned (${page.backend})`);
 
     return NextResponse.json({
-      message: 'Combined cache handler statistics (cacheHandler + cacheHandlers)',
+      message: 'Cache entries from cacheHandler (fetch, routes) and cacheHandlers (use cache)',
       timestamp: new Date().toISOString(),
-      cache_stats: {
-        size: legacyStats.size + useCacheStats.size,
-        entries: combinedEntries,
-        keys: combinedKeys,
-      },
-      // Separate stats for debugging/testing
-      legacy_cache: {
-        size: legacyStats.size,
-        entries: legacyStats.entries,
-        keys: legacyStats.keys,
-        description: 'cacheHandler (singular): ISR, route handlers, fetch cache',
-      },
-      use_cache: {
-        size: useCacheStats.size,
-        entries: useCacheStats.entries,
-        keys: useCacheStats.keys,
-        description: 'cacheHandlers (plural): use cache directive entries',
-      },
-      info: {
-        handler_type: 'Combined Cache Handler',
-        description: 'Reports from both cacheHandler (singular) and cacheHandlers (plural) systems'
-      }
+      ...page,
     }, {
       headers: {
         'Cache-Control': 'private, no-cache, no-store, must-revalidate',
@@ -74,17 +151,76 @@ export async function GET(_request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'purge');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const params = new URL(request.url).searchParams;
+  const layer = params.get('layer');
+  const type = params.get('type');
+  const key = params.get('key');
+
+  if (layer && !CACHE_LAYERS.includes(layer as CacheLayer)) {
+    return badRequest(`layer must be one of: ${CACHE_LAYERS.join(', ')}`);
+  }
+  if (type && !CACHE_ENTRY_TYPES.includes(type as CacheEntryType)) {
+    return badRequest(`type must be one of: ${CACHE_ENTRY_TYPES.join(', ')}`);
+  }
+  if (key && !/^(fetch|route|use-cache):/.test(key)) {
+    return badRequest('key must be a key listed by GET /api/cache-stats');
+  }
+
+  const selector: CacheDeleteSelector = {
+    layer: (layer as CacheLayer) || undefined,
+    type: (type as CacheEntryType) || undefined,
+    tag: params.get('tag') || undefined,
+    prefix: params.get('prefix') || undefined,
+    key: key || undefined,
+  };
+  const dryRun = isDryRunRequested(params.get('dry_run'));
+  const target = selector.key || selector.tag || (selector.prefix ? `${selector.prefix}*` : '*');
+
   try {
-    // Access the shared file-based cache directly
-    const sizeBefore = await clearSharedCache();
+    const startTime = Date.now();
+    const result = await deleteCacheEntries(selector, { dryRun });
+    const failed = result.layers.cacheHandler.failed.length + result.layers.cacheHandlers.failed.length;
 
-    console.log(`[API] Cache cleared - removed ${sizeBefore} entries`);
+    console.log(`[API] Cache ${dryRun ? 'clear dry run' : 'cleared'} (${target}) - cacheHandler: ${result.layers.cacheHandler.removed}, cacheHandlers: ${result.layers.cacheHandlers.removed}, failed: ${failed}`);
+
+    if (!dryRun) {
+      await recordInvalidation({
+        source: 'api/cache-stats',
+        operation: 'origin-clear',
+        requester: getRequester(request.headers, `admin:${auth.principal}`),
+        startTime,
+        duration_ms: Date.now() - startTime,
+        targets: [{
+          key: target,
+          outcome: failed > 0 ? 'error' : 'success',
+          origin: `removed ${result.removed}`,
+          ...(failed > 0 && { message: `${failed} entries could not be deleted` }),
+        }],
+        details: {
+          selector,
+          removed: {
+            cacheHandler: result.layers.cacheHandler.removed,
+            cacheHandlers: result.layers.cacheHandlers.removed,
+          },
+        },
+      });
+    }
 
     return NextResponse.json({
-      message: `Cleared ${sizeBefore} cache entries`,
+      message: dryRun
+        ? `Would clear ${result.removed} cache entries`
+        : `Cleared ${result.removed} cache entries`,
       timestamp: new Date().toISOString(),
-      cleared_count: sizeBefore,
+      selector,
+      cleared_count: dryRun ? 0 : result.removed,
+      ...result,
     }, {
+      status: failed > 0 ? 207 : 200,
       headers: {
         'Cache-Control': 'private, no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
@@ -108,4 +244,4 @@ export async function DELETE(request: NextRequest) {
       }
     });
   }
-}
\ No newline at end of file
+}
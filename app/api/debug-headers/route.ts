@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { headers } from 'next/headers';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
 
 /**
  * Debug endpoint to inspect incoming request headers.
@@ -13,6 +14,11 @@ import { headers } from 'next/headers';
  */
 
 export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'debug');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const headersList = await headers();
 
   // Convert headers to object
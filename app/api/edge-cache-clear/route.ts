@@ -1,4 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, connection } from 'next/server';
+import {
+  getOutboundProxyConfig,
+  getOutboundProxyEndpoint,
+  getOutboundProxyMetrics,
+  parsePurgeMode,
+  purgeAll,
+  purgePaths,
+  purgeSurrogateKeys,
+  type EdgePurgeResult,
+} from '@/lib/cdn/outbound-proxy';
+import { getRequester, recordInvalidation, type AuditOperation } from '@/lib/revalidation/audit-log';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
 
 /**
  * API endpoint to test edge cache clearing via the outbound proxy.
@@ -7,13 +19,35 @@ import { NextRequest, NextResponse } from 'next/server';
  * DELETE /api/edge-cache-clear?key=<tag> - Clear specific cache key/tag
  * DELETE /api/edge-cache-clear?path=<url-path> - Clear specific URL path from CDN
  *
+ * `key` and `path` may be repeated (or comma-separated) to purge many at
+ * once. Requests go through lib/cdn/outbound-proxy.ts (retries, metrics).
+ *
+ * `mode=soft` marks the objects stale instead of deleting them, so the CDN
+ * keeps serving them while it refetches from the origin (use it for
+ * nuke-all to avoid a stampede). `mode=hard` (default) deletes them, for
+ * takedowns. Every result reports the mode it ran with.
+ *
+ * DELETE requires an admin token with the `purge` scope, GET `read-stats`
+ * (see lib/admin-auth.ts).
+ *
  * This is for testing purposes to validate the outbound proxy integration.
  */
 
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+};
+
+function getListParam(params: URLSearchParams, name: string): string[] {
+  return params.getAll(name).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
 export async function DELETE(request: NextRequest) {
-  const endpoint = process.env.OUTBOUND_PROXY_ENDPOINT;
+  const auth = authorizeAdminRequest(request, 'purge');
+  if (!auth.ok) {
+    return auth.response;
+  }
 
-  if (!endpoint) {
+  if (!getOutboundProxyEndpoint()) {
     return NextResponse.json(
       {
         error: 'OUTBOUND_PROXY_ENDPOINT not configured',
@@ -24,113 +58,131 @@ export async function DELETE(request: NextRequest) {
   }
 
   const url = new URL(request.url);
-  const key = url.searchParams.get('key');
-  const path = url.searchParams.get('path');
-
-  const startTime = Date.now();
-
-  try {
-    let targetUrl: string;
-    let operation: string;
-
-    if (key) {
-      // Clear specific key/tag
-      targetUrl = `http://${endpoint}/rest/v0alpha1/cache/keys/${encodeURIComponent(key)}`;
-      operation = `clear-key:${key}`;
-    } else if (path) {
-      // Clear specific URL path from CDN
-      // Strip leading slash and encode each segment individually so
-      // slashes remain as path separators in the proxy URL.
-      // Root path "/" falls through to nuke-all since the proxy has
-      // no single-segment representation for it.
-      const normalizedPath = path.startsWith('/') ? path.slice(1) : path;
-      if (!normalizedPath) {
-        // Root path — use full cache clear
-        targetUrl = `http://${endpoint}/rest/v0alpha1/cache`;
-        operation = `clear-path:/`;
-      } else {
-        const encodedPath = normalizedPath.split('/').map(encodeURIComponent).join('/');
-        targetUrl = `http://${endpoint}/rest/v0alpha1/cache/paths/${encodedPath}`;
-        operation = `clear-path:${path}`;
-      }
-    } else {
-      // Nuke entire cache
-      targetUrl = `http://${endpoint}/rest/v0alpha1/cache`;
-      operation = 'nuke-all';
-    }
-
-    console.log(`[EdgeCacheClear] ${operation} - Calling: ${targetUrl}`);
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
+  const mode = parsePurgeMode(url.searchParams.get('mode'));
+  if (!mode) {
+    return NextResponse.json(
+      { error: 'Invalid mode', message: 'mode must be "hard" or "soft"' },
+      { status: 400 }
+    );
+  }
 
-    const response = await fetch(targetUrl, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
-    });
+  const keys = getListParam(url.searchParams, 'key');
+  const paths = getListParam(url.searchParams, 'path');
 
-    clearTimeout(timeoutId);
-    const duration = Date.now() - startTime;
+  const startTime = Date.now();
+  const auditOperation: AuditOperation = keys.length > 0 ? 'cdn-key' : paths.length > 0 ? 'cdn-path' : 'cdn-nuke';
+
+  let results: EdgePurgeResult[];
+  let operation: string;
+
+  if (keys.length > 0) {
+    operation = keys.length === 1 ? `clear-key:${keys[0]}` : `clear-keys:${keys.length}`;
+    results = await purgeSurrogateKeys(keys, { mode });
+  } else if (paths.length > 0) {
+    operation = paths.length === 1 ? `clear-path:${paths[0]}` : `clear-paths:${paths.length}`;
+    // The proxy has no single-path representation for the root, so "/"
+    // falls through to a full cache clear
+    const rootRequested = paths.some(path => path.replace(/^\/+/, '') === '');
+    results = [
+      ...(await purgePaths(paths.filter(path => path.replace(/^\/+/, '') !== ''), { mode })),
+      ...(rootRequested ? [{ ...(await purgeAll({ mode })), key: '/' }] : []),
+    ];
+  } else {
+    operation = 'nuke-all';
+    results = [await purgeAll({ mode })];
+  }
 
-    const responseText = await response.text().catch(() => '');
+  const duration = Date.now() - startTime;
+  const success = results.every(result => result.success);
+
+  console.log(`[EdgeCacheClear] ${operation} (${mode}) - ${results.filter(result => result.success).length}/${results.length} succeeded, Duration: ${duration}ms`);
+
+  await recordInvalidation({
+    source: 'api/edge-cache-clear',
+    operation: auditOperation,
+    requester: getRequester(request.headers, `admin:${auth.principal}`),
+    startTime,
+    duration_ms: duration,
+    targets: results.map(result => ({
+      key: result.key,
+      outcome: result.success ? 'success' : 'error',
+      edge: result.status !== undefined ? String(result.status) : 'error',
+      ...(!result.success && { message: result.response || result.error }),
+    })),
+    details: { mode },
+  });
 
-    console.log(`[EdgeCacheClear] ${operation} - Status: ${response.status}, Duration: ${duration}ms`);
+  // Single purges keep the original response shape
+  if (results.length === 1) {
+    const [result] = results;
 
     return NextResponse.json(
       {
-        success: response.ok,
+        success: result.success,
         operation,
-        status: response.status,
+        mode: result.mode,
+        status: result.status ?? null,
+        attempts: result.attempts,
         duration_ms: duration,
-        response: responseText || null,
+        response: result.response ?? null,
+        ...(result.error && { error: result.error }),
         cleared_at: new Date().toISOString(),
       },
       {
-        status: response.ok ? 200 : 502,
-        headers: {
-          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
-        },
+        status: result.success ? 200 : result.status !== undefined ? 502 : 500,
+        headers: NO_STORE_HEADERS,
       }
     );
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
 
-    console.error(`[EdgeCacheClear] Error:`, error);
+  const failed = results.filter(result => !result.success).length;
 
-    return NextResponse.json(
-      {
-        success: false,
-        error: errorMessage,
-        duration_ms: duration,
-      },
-      {
-        status: 500,
-        headers: {
-          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
-        },
-      }
-    );
-  }
+  return NextResponse.json(
+    {
+      success,
+      operation,
+      mode,
+      duration_ms: duration,
+      results,
+      cleared_at: new Date().toISOString(),
+    },
+    {
+      status: success ? 200 : failed === results.length ? 502 : 207,
+      headers: NO_STORE_HEADERS,
+    }
+  );
 }
 
-export async function GET() {
-  const endpoint = process.env.OUTBOUND_PROXY_ENDPOINT;
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Metrics change per request
+  await connection();
+
+  const config = getOutboundProxyConfig();
 
   return NextResponse.json({
-    endpoint_configured: !!endpoint,
+    endpoint_configured: !!config.endpoint,
+    config,
+    metrics: getOutboundProxyMetrics(),
     usage: {
       'DELETE /api/edge-cache-clear': 'Clear entire CDN cache (nuke)',
-      'DELETE /api/edge-cache-clear?key=<tag>': 'Clear specific cache key/tag',
-      'DELETE /api/edge-cache-clear?path=<url-path>': 'Clear specific URL path from CDN',
+      'DELETE /api/edge-cache-clear?key=<tag>': 'Clear specific cache key/tag (repeat or comma-separate for many)',
+      'DELETE /api/edge-cache-clear?path=<url-path>': 'Clear specific URL path from CDN (repeat or comma-separate for many)',
+      'mode=soft|hard': 'soft marks objects stale (served while the origin regenerates); hard (default) deletes them',
     },
+    // DELETE needs a token with the purge scope (lib/admin-auth.ts)
     examples: {
-      nuke: 'curl -X DELETE https://your-site/api/edge-cache-clear',
-      key: 'curl -X DELETE https://your-site/api/edge-cache-clear?key=api-posts',
-      path: 'curl -X DELETE https://your-site/api/edge-cache-clear?path=/blogs',
+      nuke: 'curl -X DELETE -H "Authorization: Bearer $ADMIN_TOKEN" https://your-site/api/edge-cache-clear',
+      key: 'curl -X DELETE -H "Authorization: Bearer $ADMIN_TOKEN" https://your-site/api/edge-cache-clear?key=api-posts',
+      keys: 'curl -X DELETE -H "Authorization: Bearer $ADMIN_TOKEN" "https://your-site/api/edge-cache-clear?key=post-1,post-2,post-list"',
+      path: 'curl -X DELETE -H "Authorization: Bearer $ADMIN_TOKEN" https://your-site/api/edge-cache-clear?path=/blogs',
+      soft_nuke: 'curl -X DELETE -H "Authorization: Bearer $ADMIN_TOKEN" "https://your-site/api/edge-cache-clear?mode=soft"',
     },
+  }, {
+    headers: NO_STORE_HEADERS,
   });
 }
@@ -1,12 +1,30 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import { getConfigReport } from '@/lib/config-report';
+
+/**
+ * Effective configuration of this instance (see lib/config-report.ts).
+ *
+ * GET /api/env - data source mode, cache handler, WordPress host, outbound
+ * proxy, cacheLife profiles, allowlisted settings, and secrets as
+ * present/absent with their length (and a keyed fingerprint when
+ * CONFIG_FINGERPRINT_KEY is set). Raw environment values are never returned.
+ *
+ * Requires an admin token with the `debug` scope.
+ */
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'debug');
+  if (!auth.ok) {
+    return auth.response;
+  }
 
-export async function GET() {
   return NextResponse.json({
     timestamp: new Date().toISOString(),
-    env: process.env,
+    ...getConfigReport(),
   }, {
     headers: {
-      'Cache-Control': 'no-store',
+      'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
     },
   });
 }
@@ -0,0 +1,32 @@
+import { NextResponse, connection } from 'next/server';
+
+/**
+ * Liveness endpoint.
+ *
+ * GET /api/health - 200 whenever the process is up and serving requests.
+ * Does not probe dependencies (see /api/ready for that), so a broken cache
+ * backend or CMS never gets the process restarted.
+ */
+
+export async function GET() {
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  const memory = process.memoryUsage();
+
+  return NextResponse.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime_seconds: Math.round(process.uptime()),
+    pid: process.pid,
+    node_version: process.version,
+    memory: {
+      rss_mb: Math.round(memory.rss / 1024 / 1024),
+      heap_used_mb: Math.round(memory.heapUsed / 1024 / 1024),
+    },
+  }, {
+    headers: {
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, connection } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import { renderPrometheusMetrics } from '@/lib/cache-metrics';
+
+/**
+ * Prometheus metrics (see lib/cache-metrics.ts).
+ *
+ * GET /api/metrics - cache handler calls, hit ratio, stale serves, set bytes,
+ * latency histograms, revalidations and CDN purges, in the text exposition
+ * format. Requires an admin token with the `read-stats` scope; configure it
+ * as the scrape job's bearer token.
+ */
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  return new Response(renderPrometheusMetrics(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+    },
+  });
+}
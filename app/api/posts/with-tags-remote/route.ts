@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cacheTag, cacheLife } from 'next/cache';
 import { connection } from 'next/server';
+import { getCacheControlHeaders } from '@/lib/cache-control-policy';
+
+// Shared by cacheLife() and the CDN headers so both expire together
+const REMOTE_CACHE_LIFE = { stale: 60, revalidate: 300, expire: 3600 };
 
 // Cached function using 'use cache: remote' for RUNTIME caching
 async function fetchPostsRemote() {
   'use cache: remote';
   cacheTag('api-posts-remote', 'external-data-remote');
-  cacheLife({ stale: 60, revalidate: 300, expire: 3600 });
+  cacheLife(REMOTE_CACHE_LIFE);
 
   console.log('[RemoteCache] Fetching posts with remote cache...');
 
@@ -45,12 +49,8 @@ export async function GET(_request: NextRequest) {
       tags: ['api-posts-remote', 'external-data-remote'],
       description: 'Runtime caching with use cache: remote'
     }, {
-      headers: {
-        // CDN-friendly cache headers for edge caching
-        // s-maxage: CDN caches for 1 hour
-        // stale-while-revalidate: serve stale while revalidating in background
-        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
-      }
+      // CDN cache headers derived from the same cacheLife config
+      headers: getCacheControlHeaders(REMOTE_CACHE_LIFE),
     });
 
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchPostsWithTagsNext15 } from '../../../../lib/blogService';
+import { getCacheControlHeaders } from '@/lib/cache-control-policy';
 
 // Combined approach: Tests BOTH cache layers with the same tags
 // - Tags on fetch() via next.tags → tests cacheHandler (singular)
@@ -28,12 +29,8 @@ export async function GET(_request: NextRequest) {
       tags: ['api-posts', 'external-data'],
       description: 'Combined: fetch(next.tags) + cacheTag() for comprehensive tag invalidation'
     }, {
-      headers: {
-        // CDN-friendly cache headers for edge caching
-        // s-maxage: CDN caches for 1 hour
-        // stale-while-revalidate: serve stale while revalidating in background
-        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
-      }
+      // CDN cache headers from the 'blog' profile used by fetchPostsWithTagsNext15
+      headers: getCacheControlHeaders('blog'),
     });
 
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextResponse, connection } from 'next/server';
+import { getLifecycleStatus } from '@/lib/server-lifecycle';
+import { runReadinessChecks } from '@/lib/health-checks';
+
+/**
+ * Readiness endpoint for the platform load balancer.
+ *
+ * GET /api/ready - 200 when this instance can serve traffic, 503 otherwise.
+ *
+ * Not ready when:
+ * - the server is draining during shutdown (see server.ts)
+ * - the cache handler cannot write and read a canary entry
+ * - the CACHE_BUCKET bucket is unreachable (when configured)
+ * - WORDPRESS_API_URL does not answer (when configured)
+ */
+
+export async function GET() {
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  const lifecycle = getLifecycleStatus();
+  const lifecycleReport = {
+    draining: lifecycle.draining,
+    drain_started_at: lifecycle.drainStartedAt,
+    in_flight_requests: lifecycle.inFlightRequests,
+    background_tasks: lifecycle.backgroundTasks,
+  };
+
+  // Skip dependency probes while draining - the answer is "no" regardless
+  if (lifecycle.draining) {
+    return NextResponse.json({
+      status: 'draining',
+      timestamp: new Date().toISOString(),
+      lifecycle: lifecycleReport,
+    }, {
+      status: 503,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  const checks = await runReadinessChecks();
+  const ready = Object.values(checks).every(check => check.status !== 'fail');
+
+  return NextResponse.json({
+    status: ready ? 'ready' : 'not_ready',
+    timestamp: new Date().toISOString(),
+    checks,
+    lifecycle: lifecycleReport,
+  }, {
+    status: ready ? 200 : 503,
+    headers: {
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookRequest } from '@/lib/webhook-signature';
+import { runBatch, validateBatch } from '@/lib/revalidation/batch';
+import { isDryRunRequested, previewInvalidation } from '@/lib/revalidation/impact';
+import { getRequester, recordInvalidation, toBatchAuditTargets } from '@/lib/revalidation/audit-log';
+
+/**
+ * Batch revalidation of tags and paths in one call.
+ *
+ * POST /api/revalidate-batch
+ * {
+ *   "operations": [
+ *     { "type": "tag", "tag": "post-list", "profile": "max" },
+ *     { "type": "path", "path": "/blogs", "path_type": "page" },
+ *     { "type": "path", "path": "/blogs/[slug]", "path_type": "page" }
+ *   ],
+ *   "purge_cdn": true
+ * }
+ *
+ * Signed like /api/revalidate (see lib/webhook-signature.ts). All operations
+ * are validated first; if any is invalid nothing runs (400). Otherwise the
+ * response lists per-operation origin and CDN results (207 on partial failure).
+ *
+ * With `"dry_run": true` the batch is validated and its impact (cache entries
+ * and URLs) is returned instead; nothing is invalidated.
+ */
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+};
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const rawBody = await request.text();
+    const verification = verifyWebhookRequest(request, rawBody);
+    if (!verification.ok) {
+      console.error(`[RevalidateBatch] Unauthorized: ${verification.error}`);
+      return NextResponse.json(
+        { error: `Unauthorized: ${verification.error}` },
+        { status: verification.status, headers: NO_STORE_HEADERS }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400, headers: NO_STORE_HEADERS }
+      );
+    }
+
+    const validation = validateBatch(body);
+    if (!validation.ok) {
+      console.error('[RevalidateBatch] Rejected batch:', validation.errors);
+      return NextResponse.json(
+        { error: 'Invalid batch, no operations were run', errors: validation.errors },
+        { status: 400, headers: NO_STORE_HEADERS }
+      );
+    }
+
+    if (isDryRunRequested((body as Record<string, unknown>).dry_run)) {
+      const impact = await previewInvalidation(
+        validation.operations.map(operation => operation.type === 'tag'
+          ? { type: 'tag' as const, tag: operation.tag }
+          : { type: 'path' as const, path: operation.path, path_type: operation.path_type })
+      );
+
+      return NextResponse.json({
+        message: `Dry run: ${validation.operations.length} operations would invalidate ${impact.summary.entries} cache entries and ${impact.summary.urls} known URLs`,
+        ...impact,
+      }, { headers: NO_STORE_HEADERS });
+    }
+
+    console.log(`[RevalidateBatch] Running ${validation.operations.length} operations`);
+
+    const results = await runBatch(validation.operations);
+    const success = results.every(
+      result => result.origin.status === 'success' && result.edge.status !== 'error'
+    );
+
+    await recordInvalidation({
+      source: 'api/revalidate-batch',
+      operation: 'batch',
+      requester: getRequester(request.headers, verification.method),
+      startTime,
+      duration_ms: Date.now() - startTime,
+      targets: toBatchAuditTargets(results),
+    });
+
+    return NextResponse.json({
+      message: `Ran ${results.length} operations`,
+      revalidated_at: new Date().toISOString(),
+      success,
+      duration_ms: Date.now() - startTime,
+      results,
+    }, {
+      status: success ? 200 : 207,
+      headers: NO_STORE_HEADERS,
+    });
+  } catch (error) {
+    console.error('[RevalidateBatch] Error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to run batch', message: String(error) },
+      { status: 500, headers: NO_STORE_HEADERS }
+    );
+  }
+}
@@ -1,26 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
+import { getRequester, recordInvalidation } from '@/lib/revalidation/audit-log';
+import { isDryRunRequested, previewInvalidation } from '@/lib/revalidation/impact';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
 
 export async function GET(request: NextRequest) {
+  const startTime = Date.now();
   const url = new URL(request.url);
   const path = url.searchParams.get('path');
+  const type = url.searchParams.get('type');
 
   if (!path) {
     return NextResponse.json(
-      { error: 'path query parameter is required. Use ?path=/your-path' },
+      { error: 'path query parameter is required. Use ?path=/your-path[&type=page|layout]' },
       { status: 400 }
     );
   }
 
-  console.log(`[RevalidatePath] Revalidating path: ${path}`);
+  if (type !== null && type !== 'page' && type !== 'layout') {
+    return NextResponse.json(
+      { error: "type must be 'page' or 'layout'" },
+      { status: 400 }
+    );
+  }
+
+  // A dry run only reads the caches
+  const dryRun = isDryRunRequested(url.searchParams.get('dry_run'));
+  const auth = authorizeAdminRequest(request, dryRun ? 'read-stats' : 'purge');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Preview only: list the cache entries and URLs the path would hit
+  if (dryRun) {
+    const impact = await previewInvalidation([{ type: 'path', path, ...(type && { path_type: type }) }]);
+
+    return NextResponse.json({
+      message: `Dry run: path '${path}' would invalidate ${impact.summary.entries} cache entries and ${impact.summary.urls} known URLs`,
+      ...impact,
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  console.log(`[RevalidatePath] Revalidating path: ${path}${type ? ` (${type})` : ''}`);
 
   try {
-    revalidatePath(path);
+    revalidatePath(path, type ?? undefined);
+
+    await recordInvalidation({
+      source: 'api/revalidate-path',
+      operation: 'path',
+      requester: getRequester(request.headers, `admin:${auth.principal}`),
+      startTime,
+      duration_ms: Date.now() - startTime,
+      targets: [{ key: path, outcome: 'success' }],
+    });
 
     return NextResponse.json({
       message: `Path '${path}' has been revalidated`,
       revalidated_at: new Date().toISOString(),
       path,
+      ...(type && { type }),
     }, {
       headers: {
         'Cache-Control': 'no-store',
@@ -29,6 +72,15 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('[RevalidatePath] Error:', error);
 
+    await recordInvalidation({
+      source: 'api/revalidate-path',
+      operation: 'path',
+      requester: getRequester(request.headers, `admin:${auth.principal}`),
+      startTime,
+      duration_ms: Date.now() - startTime,
+      targets: [{ key: path, outcome: 'error', message: String(error) }],
+    });
+
     return NextResponse.json(
       { error: 'Failed to revalidate path', message: String(error) },
       {
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { getPurgeQueueStatus } from '@/lib/revalidation/purge-queue';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+
+/**
+ * Purge queue status.
+ *
+ * GET /api/revalidate-queue - Pending keys, configuration, totals and the
+ * per-key results of recent flushes (see lib/revalidation/purge-queue.ts).
+ */
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  return NextResponse.json({
+    timestamp: new Date().toISOString(),
+    ...getPurgeQueueStatus(),
+  }, {
+    headers: {
+      'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+    },
+  });
+}
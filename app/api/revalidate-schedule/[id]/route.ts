@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { verifyWebhookRequest } from '@/lib/webhook-signature';
+import { cancelRevalidationJob, getRevalidationJob } from '@/lib/revalidation/scheduler';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+
+/**
+ * A single scheduled revalidation job.
+ *
+ * GET shows the job (with its results once it ran).
+ * DELETE cancels it if it has not started; signed like a GET to
+ * /api/revalidate ("DELETE <path>\n<timestamp>." with an empty body).
+ */
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+};
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  await connection();
+  const { id } = await params;
+
+  const job = await getRevalidationJob(id);
+  if (!job) {
+    return NextResponse.json({ error: `Job ${id} not found` }, { status: 404, headers: NO_STORE_HEADERS });
+  }
+
+  return NextResponse.json({ job }, { headers: NO_STORE_HEADERS });
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  // DELETE requests sign the method and path (no body)
+  const verification = verifyWebhookRequest(request);
+  if (!verification.ok) {
+    console.error(`[RevalidateSchedule] Unauthorized: ${verification.error}`);
+    return NextResponse.json(
+      { error: `Unauthorized: ${verification.error}` },
+      { status: verification.status, headers: NO_STORE_HEADERS }
+    );
+  }
+
+  try {
+    const result = await cancelRevalidationJob(id);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status, headers: NO_STORE_HEADERS });
+    }
+
+    return NextResponse.json({
+      message: `Job ${id} cancelled`,
+      job: result.job,
+    }, {
+      headers: NO_STORE_HEADERS,
+    });
+  } catch (error) {
+    console.error('[RevalidateSchedule] Error cancelling job:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to cancel job', message: String(error) },
+      { status: 500, headers: NO_STORE_HEADERS }
+    );
+  }
+}
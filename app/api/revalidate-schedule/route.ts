@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { verifyWebhookRequest } from '@/lib/webhook-signature';
+import { validateBatch } from '@/lib/revalidation/batch';
+import { getRequester } from '@/lib/revalidation/audit-log';
+import {
+  getSchedulerStatus,
+  listRevalidationJobs,
+  MAX_SCHEDULE_AHEAD_MS,
+  scheduleRevalidation,
+  type JobStatus,
+} from '@/lib/revalidation/scheduler';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+
+/**
+ * Scheduled revalidation jobs (see lib/revalidation/scheduler.ts).
+ *
+ * POST /api/revalidate-schedule (signed like /api/revalidate)
+ * {
+ *   "run_at": "2026-03-01T09:00:00Z",        // or "delay_seconds": 3600
+ *   "label": "Scheduled post 123 goes live",
+ *   "operations": [{ "type": "tag", "tag": "post-list" }],
+ *   "purge_cdn": true
+ * }
+ *
+ * Operations use the /api/revalidate-batch format and are validated when the
+ * job is created. Results are recorded in /api/revalidation-log.
+ *
+ * GET /api/revalidate-schedule?status=scheduled lists jobs, soonest first.
+ * GET/DELETE /api/revalidate-schedule/<id> shows or cancels a job.
+ */
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+};
+
+const JOB_STATUSES: JobStatus[] = ['scheduled', 'running', 'completed', 'failed', 'cancelled'];
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400, headers: NO_STORE_HEADERS });
+}
+
+/**
+ * Resolve `run_at` (ISO time) or `delay_seconds` to a timestamp.
+ */
+function getRunAt(body: Record<string, unknown>): number | string {
+  const { run_at, delay_seconds } = body;
+
+  if ((run_at === undefined) === (delay_seconds === undefined)) {
+    return 'Exactly one of run_at or delay_seconds is required';
+  }
+
+  const runAt = run_at !== undefined
+    ? typeof run_at === 'string' ? Date.parse(run_at) : NaN
+    : typeof delay_seconds === 'number' && delay_seconds >= 0 ? Date.now() + delay_seconds * 1000 : NaN;
+
+  if (Number.isNaN(runAt)) {
+    return run_at !== undefined
+      ? 'run_at must be an ISO 8601 date'
+      : 'delay_seconds must be a non-negative number';
+  }
+  if (runAt > Date.now() + MAX_SCHEDULE_AHEAD_MS) {
+    return 'Jobs can be scheduled at most one year ahead';
+  }
+
+  return runAt;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+    const verification = verifyWebhookRequest(request, rawBody);
+    if (!verification.ok) {
+      console.error(`[RevalidateSchedule] Unauthorized: ${verification.error}`);
+      return NextResponse.json(
+        { error: `Unauthorized: ${verification.error}` },
+        { status: verification.status, headers: NO_STORE_HEADERS }
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return badRequest('Request body must be valid JSON');
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return badRequest('Request body must be a JSON object');
+    }
+
+    const runAt = getRunAt(body);
+    if (typeof runAt === 'string') {
+      return badRequest(runAt);
+    }
+
+    if (body.label !== undefined && (typeof body.label !== 'string' || body.label.length > 200)) {
+      return badRequest('label must be a string of at most 200 characters');
+    }
+
+    const validation = validateBatch(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: 'Invalid operations, the job was not scheduled', errors: validation.errors },
+        { status: 400, headers: NO_STORE_HEADERS }
+      );
+    }
+
+    const job = await scheduleRevalidation({
+      runAt,
+      operations: validation.operations,
+      requestedBy: getRequester(request.headers, verification.method),
+      label: body.label as string | undefined,
+    });
+
+    return NextResponse.json({
+      message: `Scheduled ${job.operations.length} operations for ${job.run_at}`,
+      job,
+      status_url: `/api/revalidate-schedule/${job.id}`,
+    }, {
+      status: 201,
+      headers: NO_STORE_HEADERS,
+    });
+  } catch (error) {
+    console.error('[RevalidateSchedule] Error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to schedule revalidation', message: String(error) },
+      { status: 500, headers: NO_STORE_HEADERS }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  await connection();
+
+  const status = new URL(request.url).searchParams.get('status');
+  if (status !== null && !JOB_STATUSES.includes(status as JobStatus)) {
+    return badRequest(`status must be one of: ${JOB_STATUSES.join(', ')}`);
+  }
+
+  try {
+    const jobs = await listRevalidationJobs((status as JobStatus | null) ?? undefined);
+
+    return NextResponse.json({
+      scheduler: getSchedulerStatus(),
+      count: jobs.length,
+      jobs,
+    }, {
+      headers: NO_STORE_HEADERS,
+    });
+  } catch (error) {
+    console.error('[RevalidateSchedule] Error listing jobs:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list jobs', message: String(error) },
+      { status: 500, headers: NO_STORE_HEADERS }
+    );
+  }
+}
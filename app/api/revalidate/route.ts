@@ -1,78 +1,250 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { revalidateTag } from 'next/cache';
-
-const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
-
-if (!WEBHOOK_SECRET) {
-  console.warn('[Revalidate] WARNING: WEBHOOK_SECRET not set - webhook endpoint is insecure!');
-}
+import { parsePurgeMode } from '@/lib/cdn/outbound-proxy';
+import { revalidateAndPurge } from '@/lib/revalidation/coordinator';
+import { enqueueRevalidation, isPurgeQueueEnabled } from '@/lib/revalidation/purge-queue';
+import { getRequester, recordInvalidation, toAuditTargets } from '@/lib/revalidation/audit-log';
+import { isDryRunRequested, previewInvalidation } from '@/lib/revalidation/impact';
+import { expandCascade } from '@/lib/surrogate-keys/cascade';
+import { verifyWebhookRequest } from '@/lib/webhook-signature';
+import { getWordPressEventSurrogateKeys, parseWordPressWebhook } from '@/lib/wordpress-webhook';
 
 /**
- * Validate webhook secret from request
+ * Tag revalidation webhook.
+ *
+ * Requests must be signed (see lib/webhook-signature.ts):
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<HMAC-SHA256 of "<METHOD> <path>\n<timestamp>.<body>">
+ *
+ * <path> includes the query string; <body> is the raw JSON body for POST and
+ * empty for GET. A signature is only valid for the endpoint and method it
+ * was made for.
+ *
+ * POST accepts either explicit keys (`{ "surrogate_keys": [...] }`) or a
+ * native WordPress post/term payload (see lib/wordpress-webhook.ts).
+ *
+ * Each key is revalidated at the origin and then purged at the CDN through
+ * OUTBOUND_PROXY_ENDPOINT (see lib/revalidation/coordinator.ts). Responses
+ * report both layers per key; partial failures return 207.
+ *
+ * POST requests go through the purge queue (lib/revalidation/purge-queue.ts)
+ * unless PURGE_QUEUE_DEBOUNCE_MS=0: keys are deduplicated across a short
+ * window and flushed in rate-limited batches, and the response is 202 with
+ * the queue state. Per-key results are at /api/revalidate-queue.
+ *
+ * Requested keys are expanded through the tag cascade rules first (e.g.
+ * term-4 → post-list, see lib/surrogate-keys/cascade.ts); responses list
+ * the requested keys, the expanded set and which rule added what.
+ *
+ * CDN purges are hard by default. `"mode": "soft"` in the body (or
+ * `?mode=soft` on GET) marks the keys stale instead, so the CDN keeps serving
+ * the old content while the origin regenerates; results report the mode per
+ * key.
+ *
+ * Dry run (`"dry_run": true` in the body, or `?dry_run=true` on GET) lists
+ * the cache entries and URLs the keys would hit without invalidating
+ * anything (see lib/revalidation/impact.ts).
  */
-function validateWebhookSecret(request: NextRequest, bodySecret?: string): boolean {
-  if (!WEBHOOK_SECRET) {
-    console.warn('[Revalidate] Skipping secret validation - WEBHOOK_SECRET not configured');
-    return true; // Allow in dev without secret
-  }
 
-  // Check header first
-  const headerSecret = request.headers.get('X-Webhook-Secret');
-  if (headerSecret === WEBHOOK_SECRET) {
-    return true;
-  }
-
-  // Check body secret
-  if (bodySecret === WEBHOOK_SECRET) {
-    return true;
-  }
+function invalidMode() {
+  console.error('[Revalidate] Bad request: invalid mode');
+  return NextResponse.json(
+    { error: 'mode must be "hard" or "soft"' },
+    { status: 400 }
+  );
+}
 
-  return false;
+function unauthorized(error: string, status: number) {
+  console.error(`[Revalidate] Unauthorized: ${error}`);
+  return NextResponse.json(
+    { error: `Unauthorized: ${error}` },
+    {
+      status,
+      headers: {
+        'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+      }
+    }
+  );
 }
 
 export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
   try {
-    const body = await request.json();
-    const { secret, surrogate_keys } = body;
+    // Verify the signature against the exact bytes that were signed
+    const rawBody = await request.text();
+    const verification = verifyWebhookRequest(request, rawBody);
+    if (!verification.ok) {
+      return unauthorized(verification.error, verification.status);
+    }
+
+    const requester = getRequester(request.headers, verification.method);
 
-    // Validate secret
-    if (!validateWebhookSecret(request, secret)) {
-      console.error('[Revalidate] Unauthorized: Invalid webhook secret');
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      console.error('[Revalidate] Bad request: body is not valid JSON');
       return NextResponse.json(
-        { error: 'Unauthorized: Invalid webhook secret' },
-        { status: 401 }
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
       );
     }
 
+    let { surrogate_keys } = body;
+    let wordpressEvent;
+
+    const mode = parsePurgeMode(body.mode);
+    if (!mode) {
+      return invalidMode();
+    }
+
+    // Native WordPress payload: derive the keys from the post/term change
+    if (surrogate_keys === undefined) {
+      const event = parseWordPressWebhook(body);
+
+      if (!event) {
+        console.error('[Revalidate] Bad request: unrecognized payload');
+        return NextResponse.json(
+          { error: 'surrogate_keys array or a WordPress post/term payload is required' },
+          { status: 400 }
+        );
+      }
+
+      const { surrogateKeys, reason } = getWordPressEventSurrogateKeys(event);
+      console.log(`[Revalidate] WordPress ${event.type} ${event.action}:`, surrogateKeys);
+
+      if (surrogateKeys.length === 0) {
+        return NextResponse.json({
+          message: `No cache tags affected: ${reason}`,
+          event,
+          results: [],
+        }, {
+          headers: {
+            'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+          }
+        });
+      }
+
+      surrogate_keys = surrogateKeys;
+      wordpressEvent = event;
+    }
+
     // Validate surrogate_keys array
-    if (!surrogate_keys || !Array.isArray(surrogate_keys) || surrogate_keys.length === 0) {
+    if (
+      !Array.isArray(surrogate_keys) ||
+      surrogate_keys.length === 0 ||
+      !surrogate_keys.every(key => typeof key === 'string' && key.length > 0)
+    ) {
       console.error('[Revalidate] Bad request: surrogate_keys array required');
       return NextResponse.json(
-        { error: 'surrogate_keys array is required' },
+        { error: 'surrogate_keys array of non-empty strings is required' },
         { status: 400 }
       );
     }
 
-    console.log(`[Revalidate] Revalidating ${surrogate_keys.length} cache tags:`, surrogate_keys);
-
-    // Revalidate each surrogate key
-    const results = [];
-    for (const key of surrogate_keys) {
-      try {
-        revalidateTag(key, 'max');
-        results.push({ key, status: 'success' });
-        console.log(`[Revalidate] ✓ Revalidated: ${key}`);
-      } catch (error) {
-        results.push({ key, status: 'error', message: String(error) });
-        console.error(`[Revalidate] ✗ Failed to revalidate ${key}:`, error);
-      }
+    const cascade = expandCascade(surrogate_keys);
+    const keys = cascade.keys;
+    const expansion = {
+      requested_keys: surrogate_keys,
+      expanded_keys: keys,
+      cascade: cascade.cascaded,
+    };
+
+    if (cascade.cascaded.length > 0) {
+      console.log(`[Revalidate] Cascade added ${cascade.cascaded.length} cache tags:`, cascade.cascaded.map(entry => entry.key));
     }
 
+    if (isDryRunRequested(body.dry_run)) {
+      const impact = await previewInvalidation(
+        keys.map(tag => ({ type: 'tag' as const, tag }))
+      );
+
+      console.log(`[Revalidate] Dry run for ${keys.length} cache tags: ${impact.summary.entries} entries, ${impact.summary.urls} URLs`);
+
+      return NextResponse.json({
+        message: `Dry run: ${keys.length} cache tags would invalidate ${impact.summary.entries} cache entries and ${impact.summary.urls} known URLs`,
+        ...(wordpressEvent && { event: wordpressEvent }),
+        ...expansion,
+        ...impact,
+      }, {
+        headers: {
+          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+        }
+      });
+    }
+
+    if (isPurgeQueueEnabled()) {
+      const source = wordpressEvent ? `wordpress:${wordpressEvent.type}:${wordpressEvent.action}` : 'webhook';
+      const queued = enqueueRevalidation(keys, `${source} (${requester.ip})`, mode);
+
+      console.log(
+        `[Revalidate] Queued ${queued.queued.length} cache tags (${queued.deduplicated.length} already pending), flush in ${queued.flushInMs}ms`
+      );
+
+      await recordInvalidation({
+        source: 'api/revalidate',
+        operation: 'tag',
+        requester,
+        startTime,
+        duration_ms: Date.now() - startTime,
+        targets: keys.map(key => ({ key, outcome: 'queued' as const })),
+        details: {
+          mode,
+          deduplicated: queued.deduplicated,
+          ...(cascade.cascaded.length > 0 && { cascade: cascade.cascaded }),
+          ...(wordpressEvent && { event: wordpressEvent }),
+        },
+      });
+
+      return NextResponse.json({
+        message: `Queued ${keys.length} cache tags for revalidation`,
+        queued_at: new Date().toISOString(),
+        mode,
+        ...expansion,
+        queued: queued.queued,
+        deduplicated: queued.deduplicated,
+        pending: queued.pending,
+        flush_in_ms: queued.flushInMs,
+        ...(wordpressEvent && { event: wordpressEvent }),
+        status_url: '/api/revalidate-queue',
+      }, {
+        status: 202,
+        headers: {
+          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+        }
+      });
+    }
+
+    console.log(`[Revalidate] Revalidating ${keys.length} cache tags (${mode} purge):`, keys);
+
+    const report = await revalidateAndPurge(keys, { purgeMode: mode });
+
+    await recordInvalidation({
+      source: 'api/revalidate',
+      operation: 'tag',
+      requester,
+      startTime,
+      duration_ms: Date.now() - startTime,
+      targets: toAuditTargets(report.results),
+      details: {
+        mode,
+        ...(cascade.cascaded.length > 0 && { cascade: cascade.cascaded }),
+        ...(wordpressEvent && { event: wordpressEvent }),
+      },
+    });
+
     return NextResponse.json({
-      message: `Revalidated ${surrogate_keys.length} cache tags`,
+      message: `Revalidated ${report.results.length} cache tags`,
       revalidated_at: new Date().toISOString(),
-      results,
+      success: report.success,
+      edge_configured: report.edge_configured,
+      mode,
+      duration_ms: report.duration_ms,
+      ...(wordpressEvent && { event: wordpressEvent }),
+      ...expansion,
+      results: report.results,
     }, {
+      status: report.success ? 200 : 207,
       headers: {
         'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
       }
@@ -95,38 +267,83 @@ export async function POST(request: NextRequest) {
 
 // Keep GET method for manual testing
 export async function GET(request: NextRequest) {
+  const startTime = Date.now();
   const url = new URL(request.url);
   const tag = url.searchParams.get('tag');
-  const secret = url.searchParams.get('secret');
 
-  // Validate secret
-  if (!validateWebhookSecret(request, secret || undefined)) {
-    return NextResponse.json(
-      { error: 'Unauthorized: Invalid webhook secret' },
-      { status: 401 }
-    );
+  // GET requests sign the method, path and query string (no body)
+  const verification = verifyWebhookRequest(request);
+  if (!verification.ok) {
+    return unauthorized(verification.error, verification.status);
   }
 
   if (!tag) {
     return NextResponse.json(
       {
-        error: 'Cache tag is required. Use ?tag=your-tag-name&secret=your-secret',
+        error: 'Cache tag is required. Use ?tag=your-tag-name (signed request)',
         available_tags: ['wordpress-posts', 'post-123', 'author-5']
       },
       { status: 400 }
     );
   }
 
-  console.log(`[Revalidate] Manual revalidation of tag: ${tag}`);
+  const mode = parsePurgeMode(url.searchParams.get('mode'));
+  if (!mode) {
+    return invalidMode();
+  }
+
+  const cascade = expandCascade([tag]);
+  const expansion = {
+    requested_keys: [tag],
+    expanded_keys: cascade.keys,
+    cascade: cascade.cascaded,
+  };
 
   try {
-    revalidateTag(tag, 'max');
+    if (isDryRunRequested(url.searchParams.get('dry_run'))) {
+      const impact = await previewInvalidation(cascade.keys.map(key => ({ type: 'tag' as const, tag: key })));
+
+      return NextResponse.json({
+        message: `Dry run: cache tag '${tag}' would invalidate ${impact.summary.entries} cache entries and ${impact.summary.urls} known URLs`,
+        ...expansion,
+        ...impact,
+      }, {
+        headers: {
+          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+        }
+      });
+    }
+
+    console.log(`[Revalidate] Manual ${mode} revalidation of tag: ${tag}${cascade.cascaded.length > 0 ? ` (+ ${cascade.cascaded.map(entry => entry.key).join(', ')})` : ''}`);
+
+    const report = await revalidateAndPurge(cascade.keys, { purgeMode: mode });
+    const [result] = report.results;
+
+    await recordInvalidation({
+      source: 'api/revalidate',
+      operation: 'tag',
+      requester: getRequester(request.headers, verification.method),
+      startTime,
+      duration_ms: Date.now() - startTime,
+      targets: toAuditTargets(report.results),
+      details: {
+        mode,
+        ...(cascade.cascaded.length > 0 && { cascade: cascade.cascaded }),
+      },
+    });
 
     return NextResponse.json({
-      message: `Cache tag '${tag}' has been revalidated`,
+      message: `Cache tag '${result.tag}' has been revalidated`,
       revalidated_at: new Date().toISOString(),
-      tag
+      success: report.success,
+      edge_configured: report.edge_configured,
+      mode,
+      ...result,
+      ...expansion,
+      // Every revalidated key, including the ones added by the cascade
+      results: report.results,
     }, {
+      status: report.success ? 200 : 207,
       headers: {
         'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
       }
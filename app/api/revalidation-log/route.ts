@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse, connection } from 'next/server';
+import { getAuditLogStore, queryAuditLog, type AuditQuery } from '@/lib/revalidation/audit-log';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+
+/**
+ * Revalidation audit log query.
+ *
+ * GET /api/revalidation-log
+ *   ?key=post-list          - records touching this tag, CDN key or path
+ *   &from=2026-01-01T03:00Z - start of range (ISO date or ms), default 24h ago
+ *   &to=2026-01-01T04:00Z   - end of range, default now
+ *   &outcome=error          - success | partial | error | queued
+ *   &source=api/revalidate  - endpoint or component that invalidated
+ *   &limit=100              - max records (1-1000)
+ *
+ * Records are returned newest first (see lib/revalidation/audit-log.ts), and
+ * are kept for AUDIT_LOG_RETENTION_DAYS. A query reads at most the newest
+ * 5000 records in the range before filtering: `truncated` reports that older
+ * records were not read, and `next_to` (also set when more than `limit`
+ * records matched) is the `to` that continues the query.
+ */
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_MS = 31 * DEFAULT_RANGE_MS;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+const OUTCOMES = ['success', 'partial', 'error', 'queued'];
+
+function parseTime(value: string | null, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+}
+
+function badRequest(message: string) {
+  return NextResponse.json(
+    { error: 'Invalid query', message },
+    {
+      status: 400,
+      headers: {
+        'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+      },
+    }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdminRequest(request, 'read-stats');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  // Always evaluate at request time, never prerender
+  await connection();
+
+  const params = new URL(request.url).searchParams;
+  const now = Date.now();
+
+  const to = parseTime(params.get('to'), now);
+  const from = parseTime(params.get('from'), to - DEFAULT_RANGE_MS);
+  const limit = parseInt(params.get('limit') || String(DEFAULT_LIMIT), 10);
+  const outcome = params.get('outcome');
+  const key = params.get('key');
+  const source = params.get('source');
+
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return badRequest('from and to must be ISO dates or milliseconds since epoch');
+  }
+  if (from > to) {
+    return badRequest('from must be before to');
+  }
+  if (to - from > MAX_RANGE_MS) {
+    return badRequest('Time range is limited to 31 days');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  if (outcome && !OUTCOMES.includes(outcome)) {
+    return badRequest(`outcome must be one of: ${OUTCOMES.join(', ')}`);
+  }
+
+  const query: AuditQuery = {
+    from,
+    to,
+    limit,
+    ...(key && { key }),
+    ...(outcome && { outcome: outcome as AuditQuery['outcome'] }),
+    ...(source && { source }),
+  };
+
+  try {
+    const { records, scanned, truncated, next_to } = await queryAuditLog(query);
+
+    return NextResponse.json({
+      store: getAuditLogStore().type,
+      query: {
+        ...query,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+      },
+      count: records.length,
+      scanned,
+      truncated,
+      next_to: next_to !== null ? new Date(next_to).toISOString() : null,
+      records,
+    }, {
+      headers: {
+        'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+      },
+    });
+  } catch (error) {
+    console.error('[RevalidationLog] Query failed:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to query revalidation log', message: String(error) },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+        },
+      }
+    );
+  }
+}
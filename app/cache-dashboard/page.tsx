@@ -0,0 +1,403 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RequestEvent, RevalidationEvent } from '@/lib/cache-events';
+import type { CacheEntrySummary } from '@/lib/cache-inspector';
+import type { RouteHitRatio } from '@/lib/cache-metrics';
+
+// Live view of /api/cache-events (see lib/cache-dashboard.ts). The stream is
+// read with fetch() rather than EventSource so the admin token can be sent.
+
+const TOKEN_STORAGE_KEY = 'cache-dashboard-token';
+const RECONNECT_DELAY_MS = 3000;
+const MAX_ITEMS = 50;
+
+interface TrackedEntry extends CacheEntrySummary {
+  receivedAt: number;
+  changedAt: number;
+}
+
+interface EntryActivity {
+  at: number;
+  change: 'added' | 'removed' | 'state';
+  key: string;
+  detail?: string;
+}
+
+type EntryChange =
+  | { change: 'added'; entry: CacheEntrySummary }
+  | { change: 'state'; entry: CacheEntrySummary; previous_state: string }
+  | { change: 'removed'; key: string };
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+function track(entry: CacheEntrySummary, now: number): TrackedEntry {
+  return { ...entry, receivedAt: now, changedAt: now };
+}
+
+function countdown(seconds: number | null, receivedAt: number, now: number): string {
+  if (seconds === null) return '∞';
+  const left = Math.max(0, seconds - Math.floor((now - receivedAt) / 1000));
+  if (left >= 3600) return `${Math.floor(left / 3600)}h ${Math.floor((left % 3600) / 60)}m`;
+  if (left >= 60) return `${Math.floor(left / 60)}m ${left % 60}s`;
+  return `${left}s`;
+}
+
+function shortKey(key: string): string {
+  return key.length > 60 ? `${key.slice(0, 57)}...` : key;
+}
+
+const STATE_STYLES: Record<string, string> = {
+  fresh: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  stale: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  expired: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  unknown: 'bg-zinc-100 dark:bg-zinc-700 text-zinc-600 dark:text-zinc-300',
+};
+
+export default function CacheDashboardPage() {
+  const [token, setToken] = useState('');
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
+  const [statusMessage, setStatusMessage] = useState('');
+  const [entries, setEntries] = useState<Map<string, TrackedEntry>>(new Map());
+  // Entries in storage when the server loaded only the most recent ones
+  const [storedEntries, setStoredEntries] = useState<number | null>(null);
+  const [activity, setActivity] = useState<EntryActivity[]>([]);
+  const [requests, setRequests] = useState<RequestEvent[]>([]);
+  const [revalidations, setRevalidations] = useState<RevalidationEvent[]>([]);
+  const [hitRatios, setHitRatios] = useState<RouteHitRatio[]>([]);
+  // Set once mounted: the page is prerendered, where the current time is off limits
+  const [now, setNow] = useState(0);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const reconnectRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handleEvent = useCallback((event: string, data: any) => {
+    const receivedAt = Date.now();
+
+    switch (event) {
+      case 'snapshot':
+        setEntries(new Map((data.entries as CacheEntrySummary[]).map(entry => [entry.key, track(entry, receivedAt)])));
+        setStoredEntries(data.partial ? data.stored_entries : null);
+        setHitRatios(data.hit_ratios);
+        setRequests([...data.requests].reverse().slice(0, MAX_ITEMS));
+        setRevalidations([...data.revalidations].reverse().slice(0, MAX_ITEMS));
+        break;
+
+      case 'entry': {
+        const change = data as EntryChange;
+        setEntries(prev => {
+          const next = new Map(prev);
+          if (change.change === 'removed') {
+            next.delete(change.key);
+          } else {
+            next.set(change.entry.key, track(change.entry, receivedAt));
+          }
+          return next;
+        });
+        setActivity(prev => [{
+          at: receivedAt,
+          change: change.change,
+          key: change.change === 'removed' ? change.key : change.entry.key,
+          detail: change.change === 'state' ? `${change.previous_state} → ${change.entry.state}` : undefined,
+        }, ...prev].slice(0, MAX_ITEMS));
+        break;
+      }
+
+      case 'request':
+        setRequests(prev => [data as RequestEvent, ...prev].slice(0, MAX_ITEMS));
+        break;
+
+      case 'revalidation':
+        setRevalidations(prev => [data as RevalidationEvent, ...prev].slice(0, MAX_ITEMS));
+        break;
+
+      case 'hit-ratios':
+        setHitRatios(data);
+        break;
+    }
+  }, []);
+
+  const disconnect = useCallback(() => {
+    if (reconnectRef.current) clearTimeout(reconnectRef.current);
+    reconnectRef.current = null;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStatus('disconnected');
+  }, []);
+
+  const connect = useCallback(async (authToken: string) => {
+    disconnect();
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('connecting');
+    setStatusMessage('');
+
+    try {
+      const response = await fetch('/api/cache-events', {
+        headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        setStatus('error');
+        setStatusMessage(body.message || `HTTP ${response.status}`);
+        return;
+      }
+
+      setStatus('connected');
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+
+        for (const message of messages) {
+          let event = 'message';
+          let data = '';
+          for (const line of message.split('\n')) {
+            if (line.startsWith('event: ')) event = line.slice(7);
+            else if (line.startsWith('data: ')) data += line.slice(6);
+          }
+          if (data) handleEvent(event, JSON.parse(data));
+        }
+      }
+
+      // Server closed the stream (restart or drain): reconnect
+      throw new Error('Stream closed');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      setStatus('error');
+      setStatusMessage(`${error instanceof Error ? error.message : error}, reconnecting...`);
+      reconnectRef.current = setTimeout(() => connect(authToken), RECONNECT_DELAY_MS);
+    }
+  }, [disconnect, handleEvent]);
+
+  useEffect(() => {
+    const saved = sessionStorage.getItem(TOKEN_STORAGE_KEY) || '';
+    setToken(saved);
+    connect(saved);
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(timer);
+      disconnect();
+    };
+  }, [connect, disconnect]);
+
+  const saveToken = () => {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+    connect(token);
+  };
+
+  const sortedEntries = [...entries.values()].sort((a, b) => b.changedAt - a.changedAt || a.key.localeCompare(b.key));
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-900">
+      <div className="mx-auto max-w-7xl px-6 py-12">
+        <nav className="mb-8">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+          >
+            ← Back to Home
+          </Link>
+        </nav>
+
+        <header className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight text-zinc-900 dark:text-zinc-100 mb-2">
+              Cache Dashboard
+            </h1>
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              Live cache entries, revalidations, hit ratios and Surrogate-Keys
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className={`px-2 py-1 rounded text-xs font-medium ${
+              status === 'connected'
+                ? STATE_STYLES.fresh
+                : status === 'error' ? STATE_STYLES.expired : STATE_STYLES.unknown
+            }`}>
+              {status}{statusMessage && `: ${statusMessage}`}
+            </span>
+            <input
+              type="password"
+              value={token}
+              onChange={event => setToken(event.target.value)}
+              placeholder="Admin token (read-stats)"
+              className="px-3 py-2 text-sm rounded-md border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100"
+            />
+            <button
+              onClick={saveToken}
+              className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-md transition-colors"
+            >
+              Connect
+            </button>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <section className="lg:col-span-2 bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-4">
+              Cache Entries ({entries.size}{storedEntries !== null && `, most recent of ${storedEntries} stored`})
+            </h2>
+            <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="text-left text-zinc-500 dark:text-zinc-400">
+                  <tr>
+                    <th className="py-2 pr-3">Key</th>
+                    <th className="py-2 pr-3">State</th>
+                    <th className="py-2 pr-3">Revalidate</th>
+                    <th className="py-2 pr-3">Expire</th>
+                    <th className="py-2 pr-3">Size</th>
+                    <th className="py-2">Tags</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedEntries.map(entry => (
+                    <tr
+                      key={entry.key}
+                      className={`border-t border-zinc-100 dark:border-zinc-700 transition-colors ${
+                        now - entry.changedAt < 3000 ? 'bg-purple-50 dark:bg-purple-900/20' : ''
+                      }`}
+                    >
+                      <td className="py-2 pr-3 font-mono text-zinc-700 dark:text-zinc-300 break-all" title={entry.key}>
+                        {shortKey(entry.key)}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <span className={`px-2 py-0.5 rounded ${STATE_STYLES[entry.state]}`}>{entry.state}</span>
+                      </td>
+                      <td className="py-2 pr-3 text-zinc-600 dark:text-zinc-400">
+                        {countdown(entry.remaining.revalidate_seconds, entry.receivedAt, now)}
+                      </td>
+                      <td className="py-2 pr-3 text-zinc-600 dark:text-zinc-400">
+                        {countdown(entry.remaining.expire_seconds, entry.receivedAt, now)}
+                      </td>
+                      <td className="py-2 pr-3 text-zinc-600 dark:text-zinc-400">
+                        {(entry.size_bytes / 1024).toFixed(1)} KB
+                      </td>
+                      <td className="py-2 text-zinc-600 dark:text-zinc-400">
+                        {[...new Set(entry.tags)].join(', ') || '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {entries.size === 0 && (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400 py-4">No cache entries</p>
+              )}
+            </div>
+          </section>
+
+          <section className="bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-4">
+              Hit Ratio by Route
+            </h2>
+            <div className="space-y-3">
+              {hitRatios.map(route => (
+                <div key={route.route}>
+                  <div className="flex justify-between text-xs text-zinc-700 dark:text-zinc-300 mb-1">
+                    <span className="font-mono">{route.route}</span>
+                    <span>
+                      {(route.ratio * 100).toFixed(0)}% ({route.hit} hit, {route.stale} stale, {route.miss} miss)
+                    </span>
+                  </div>
+                  <div className="h-2 rounded bg-zinc-100 dark:bg-zinc-700 overflow-hidden">
+                    <div className="h-2 bg-green-500" style={{ width: `${route.ratio * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+              {hitRatios.length === 0 && (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">No cache lookups yet</p>
+              )}
+            </div>
+
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mt-8 mb-4">
+              Entry Activity
+            </h2>
+            <ul className="space-y-2 text-xs max-h-64 overflow-y-auto">
+              {activity.map((item, index) => (
+                <li key={`${item.at}-${index}`} className="text-zinc-600 dark:text-zinc-400">
+                  <span className="text-zinc-400">{new Date(item.at).toLocaleTimeString()}</span>{' '}
+                  <span className={`px-1.5 py-0.5 rounded ${
+                    item.change === 'added' ? STATE_STYLES.fresh : item.change === 'removed' ? STATE_STYLES.expired : STATE_STYLES.stale
+                  }`}>
+                    {item.change}
+                  </span>{' '}
+                  <span className="font-mono break-all" title={item.key}>{shortKey(item.key)}</span>
+                  {item.detail && <span> ({item.detail})</span>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section className="bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-4">
+              Revalidations
+            </h2>
+            <ul className="space-y-3 text-xs max-h-96 overflow-y-auto">
+              {revalidations.map(event => (
+                <li key={event.id} className="border-b border-zinc-100 dark:border-zinc-700 pb-2">
+                  <div className="flex justify-between text-zinc-500 dark:text-zinc-400">
+                    <span>{new Date(event.at).toLocaleTimeString()} · {event.source} · {event.operation}</span>
+                    <span className={`px-1.5 py-0.5 rounded ${
+                      event.outcome === 'success' ? STATE_STYLES.fresh : event.outcome === 'error' ? STATE_STYLES.expired : STATE_STYLES.stale
+                    }`}>
+                      {event.outcome}
+                    </span>
+                  </div>
+                  <div className="font-mono text-zinc-700 dark:text-zinc-300 break-all mt-1">
+                    {event.keys.join(', ')}
+                  </div>
+                </li>
+              ))}
+              {revalidations.length === 0 && (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">No revalidations yet</p>
+              )}
+            </ul>
+          </section>
+
+          <section className="bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-4">
+              Recent Requests
+            </h2>
+            <ul className="space-y-3 text-xs max-h-96 overflow-y-auto">
+              {requests.map((event, index) => (
+                <li key={`${event.at}-${index}`} className="border-b border-zinc-100 dark:border-zinc-700 pb-2">
+                  <div className="flex justify-between text-zinc-500 dark:text-zinc-400">
+                    <span>
+                      {new Date(event.at).toLocaleTimeString()} · {event.method}{' '}
+                      <span className="font-mono text-zinc-700 dark:text-zinc-300">{event.path}</span> · {event.status}
+                    </span>
+                    <span>
+                      {event.lookups.hit} hit · {event.lookups.stale} stale · {event.lookups.miss} miss
+                    </span>
+                  </div>
+                  <div className="font-mono text-purple-700 dark:text-purple-300 break-all mt-1">
+                    Surrogate-Key: {event.surrogate_key}
+                  </div>
+                </li>
+              ))}
+              {requests.length === 0 && (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">No requests yet</p>
+              )}
+            </ul>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
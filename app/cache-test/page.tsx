@@ -138,9 +138,13 @@ export default function CacheTestPage() {
   const fetchCacheStats = async () => {
     setIsLoadingStats(true);
     try {
-      const response = await fetch('/api/cache-stats');
+      const response = await fetch('/api/cache-stats?limit=500');
       const data = await response.json();
-      setCacheStats(data);
+      if (response.ok) {
+        setCacheStats(data);
+      } else {
+        alert(`Error fetching cache stats: ${data.message || data.error}`);
+      }
     } catch (error) {
       console.error('Error fetching cache stats:', error);
     } finally {
@@ -211,7 +215,7 @@ export default function CacheTestPage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                   <div className="text-center">
                     <div className="text-3xl font-bold text-purple-600 dark:text-purple-400">
-                      {cacheStats.cache_stats.size}
+                      {cacheStats.total}
                     </div>
                     <div className="text-sm text-zinc-600 dark:text-zinc-400">
                       Cache Entries
@@ -219,7 +223,7 @@ export default function CacheTestPage() {
                   </div>
                   <div className="text-center">
                     <div className="text-3xl font-bold text-green-600 dark:text-green-400">
-                      {cacheStats.cache_stats.entries.length}
+                      {cacheStats.entries.length}
                     </div>
                     <div className="text-sm text-zinc-600 dark:text-zinc-400">
                       Cache Keys
@@ -228,21 +232,21 @@ export default function CacheTestPage() {
                 </div>
 
                 <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
-                  <strong>Handler:</strong> {cacheStats.info.handler_type}
+                  <strong>Storage:</strong> {cacheStats.backend}
                 </div>
 
-                {cacheStats.cache_stats.entries.length > 0 && (
+                {cacheStats.entries.length > 0 && (
                   <div>
                     <h4 className="font-medium text-zinc-900 dark:text-zinc-100 mb-3">
                       Cache Entries with Tags
                     </h4>
                     <div className="bg-zinc-100 dark:bg-zinc-700 p-4 rounded-lg">
                       <div className="space-y-3">
-                        {cacheStats.cache_stats.entries
+                        {cacheStats.entries
                           .sort((a: any, b: any) => {
-                            // Sort by lastModified date, newest first
-                            const dateA = a.lastModified ? new Date(a.lastModified).getTime() : 0;
-                            const dateB = b.lastModified ? new Date(b.lastModified).getTime() : 0;
+                            // Sort by last_modified date, newest first
+                            const dateA = a.last_modified ? new Date(a.last_modified).getTime() : 0;
+                            const dateB = b.last_modified ? new Date(b.last_modified).getTime() : 0;
                             return dateB - dateA;
                           })
                           .map((entry: any, index: number) => (
@@ -255,7 +259,7 @@ export default function CacheTestPage() {
                               }`}>
                                 {entry.type}
                               </span>
-                              {entry.key.replace(/^(fetch|route):/, '')}
+                              {entry.key.replace(/^(fetch|route|use-cache):/, '')}
                             </div>
                             {entry.tags && entry.tags.length > 0 && (
                               <div className="flex flex-wrap gap-1">
@@ -277,9 +281,9 @@ export default function CacheTestPage() {
                                 No tags
                               </div>
                             )}
-                            {entry.lastModified && (
+                            {entry.last_modified && (
                               <div className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
-                                Modified: {new Date(entry.lastModified).toLocaleString()}
+                                Modified: {new Date(entry.last_modified).toLocaleString()}
                               </div>
                             )}
                           </div>
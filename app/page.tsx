@@ -60,6 +60,12 @@ export default function Home() {
           >
             Cache Test
           </Link>
+          <Link
+            className="flex h-12 w-full items-center justify-center rounded-full border border-solid border-purple-600/20 px-5 transition-colors hover:border-purple-600 hover:bg-purple-600/10 dark:border-purple-400/20 dark:hover:border-purple-400 dark:hover:bg-purple-400/10 lg:w-[170px] text-purple-600 dark:text-purple-400"
+            href="/cache-dashboard"
+          >
+            Cache Dashboard
+          </Link>
           <Link
             className="flex h-12 w-full items-center justify-center rounded-full border border-solid border-black/[.08] px-5 transition-colors hover:border-transparent hover:bg-black/[.04] dark:border-white/[.145] dark:hover:bg-[#1a1a1a] lg:w-[150px]"
             href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
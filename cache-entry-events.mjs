@@ -0,0 +1,49 @@
+// Cache entry writes and deletes, reported by cache-handler.mjs,
+// use-cache-handler.mjs and the app code that edits storage directly
+// (lib/cache-inspector.ts, lib/cache-snapshot.ts)
+//
+// lib/cache-dashboard.ts follows them to keep its entry list current without
+// re-listing storage. The emitter lives on globalThis because the handlers
+// are loaded by Next.js in a different module context than the app code.
+
+import { EventEmitter } from 'events';
+
+const ENTRY_EVENTS_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-entry-events');
+
+function getEmitter() {
+  if (!globalThis[ENTRY_EVENTS_SYMBOL]) {
+    globalThis[ENTRY_EVENTS_SYMBOL] = new EventEmitter();
+    globalThis[ENTRY_EVENTS_SYMBOL].setMaxListeners(0);
+  }
+  return globalThis[ENTRY_EVENTS_SYMBOL];
+}
+
+/**
+ * Storage name of a handler cache key, the way the handlers sanitize it.
+ */
+export function toStorageName(cacheKey) {
+  return cacheKey.replace(/[^a-zA-Z0-9-]/g, '_');
+}
+
+/**
+ * Report that an entry was written ('set') or deleted ('delete').
+ * `key` is the inspector key, `<type>:<storage name>`. Never throws.
+ */
+export function publishEntryChange(change, key) {
+  try {
+    getEmitter().emit('change', { change, key });
+  } catch (error) {
+    console.error(`[CacheEntryEvents] Subscriber failed on ${change} ${key}:`, error);
+  }
+}
+
+/**
+ * Receive every entry change until the returned function is called.
+ */
+export function subscribeEntryChanges(listener) {
+  const emitter = getEmitter();
+  emitter.on('change', listener);
+  return () => {
+    emitter.off('change', listener);
+  };
+}
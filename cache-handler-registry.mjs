@@ -0,0 +1,81 @@
+// Registry of the active cache handler instances, shared with the app code
+//
+// lib/revalidation/coordinator.ts invalidates tags on these handlers directly
+// so the origin is invalidated before the CDN is purged. Next.js applies
+// revalidateTag() only after the response has been sent, which is too late
+// to order the two layers.
+
+const CACHE_HANDLERS_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-handlers');
+const COORDINATED_TAGS_SYMBOL = Symbol.for('@nextjs-cache-test-app/coordinated-tags');
+
+// Covers the coordinator's own invalidation and the revalidateTag() replay
+// Next.js runs once the response is sent
+const COORDINATED_TAG_TTL_MS = 60_000;
+
+/**
+ * Register a handler instance for a cache layer
+ * ('cacheHandler' for the legacy handler, 'cacheHandlers' for 'use cache').
+ */
+export function registerCacheHandler(layer, handler) {
+  globalThis[CACHE_HANDLERS_SYMBOL] ??= {};
+  globalThis[CACHE_HANDLERS_SYMBOL][layer] = handler;
+}
+
+/**
+ * The registered handler instance for a cache layer, or undefined before
+ * Next.js created one in this process.
+ */
+export function getCacheHandler(layer) {
+  return globalThis[CACHE_HANDLERS_SYMBOL]?.[layer];
+}
+
+function getCoordinatedTags() {
+  return (globalThis[COORDINATED_TAGS_SYMBOL] ??= new Map());
+}
+
+/**
+ * Mark tags whose surrogate keys the coordinator purges (or deliberately
+ * leaves) at the edge itself, with per-key results and the requested purge
+ * mode. The handlers skip their own background key purge for them.
+ */
+export function markCoordinatedTags(tags) {
+  const coordinatedTags = getCoordinatedTags();
+  const now = Date.now();
+
+  for (const [tag, expiresAt] of coordinatedTags) {
+    if (expiresAt <= now) {
+      coordinatedTags.delete(tag);
+    }
+  }
+  for (const tag of tags) {
+    coordinatedTags.set(tag, now + COORDINATED_TAG_TTL_MS);
+  }
+}
+
+/**
+ * Whether the coordinator recently took over the edge purge for a tag.
+ * Tags invalidated any other way (e.g. revalidateTag() in a server action)
+ * are purged by the handler as usual.
+ */
+export function isCoordinatedTag(tag) {
+  const expiresAt = getCoordinatedTags().get(tag);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+const EDGE_PURGER_SYMBOL = Symbol.for('@nextjs-cache-test-app/edge-purger');
+
+/**
+ * Register the app's edge purge client ({ purgeTags(tags), purgePaths(paths) }),
+ * which the handlers use for the purges they still make themselves.
+ */
+export function registerEdgePurger(purger) {
+  globalThis[EDGE_PURGER_SYMBOL] = purger;
+}
+
+/**
+ * The registered edge purge client, or undefined before the app code that
+ * registers it (lib/revalidation/coordinator.ts) has loaded.
+ */
+export function getEdgePurger() {
+  return globalThis[EDGE_PURGER_SYMBOL];
+}
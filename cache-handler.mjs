@@ -1,8 +1,78 @@
 // Cache handler configuration using @pantheon-systems/nextjs-cache-handler
 import { createCacheHandler } from '@pantheon-systems/nextjs-cache-handler';
+import { recordCacheLookup } from './cache-request-context.mjs';
+import { isCoordinatedTag, registerCacheHandler } from './cache-handler-registry.mjs';
+import { publishEntryChange, toStorageName } from './cache-entry-events.mjs';
+import { estimateBytes, measureCacheOperation, recordCacheOperation } from './cache-metrics.mjs';
 
-const CacheHandler = createCacheHandler({
+const BaseCacheHandler = createCacheHandler({
   type: 'auto', // Auto-detect: GCS if CACHE_BUCKET is set, otherwise file-based
 });
 
+/**
+ * Records every lookup on the current request (see cache-request-context.mjs)
+ * so server.ts can report real hit/miss/stale results per request, counts
+ * and times every call for /api/metrics (see cache-metrics.mjs), and reports
+ * entry writes and deletes to the cache dashboard (see cache-entry-events.mjs).
+ */
+class CacheHandler extends BaseCacheHandler {
+  constructor(options) {
+    super(options);
+    registerCacheHandler('cacheHandler', this);
+  }
+
+  async get(cacheKey, ctx) {
+    const startTime = performance.now();
+    const entry = await super.get(cacheKey, ctx);
+
+    let result = 'miss';
+    if (entry) {
+      // Fetch cache entries carry their revalidate window in seconds
+      const revalidate = entry.value?.revalidate;
+      const isStale = typeof revalidate === 'number'
+        && Date.now() - entry.lastModified > revalidate * 1000;
+      result = isStale ? 'stale' : 'hit';
+    }
+
+    const durationMs = performance.now() - startTime;
+    recordCacheLookup({ layer: 'cacheHandler', key: cacheKey, result, durationMs });
+    recordCacheOperation({ layer: 'cacheHandler', operation: 'get', result, durationMs });
+
+    return entry;
+  }
+
+  async set(cacheKey, data, ctx) {
+    await measureCacheOperation('cacheHandler', 'set', () => super.set(cacheKey, data, ctx), {
+      bytes: estimateBytes(data),
+    });
+    // Same split as the handler: fetch entries by value kind, everything else is a route
+    publishEntryChange('set', `${data?.kind === 'FETCH' ? 'fetch' : 'route'}:${toStorageName(cacheKey)}`);
+  }
+
+  async revalidateTag(tags) {
+    return measureCacheOperation('cacheHandler', 'revalidateTag', () => super.revalidateTag(tags), {
+      tags: [tags].flat().length,
+    });
+  }
+
+  // Called by revalidateTag() after it deleted the tagged entries. The
+  // coordinator purges the surrogate keys of the tags it invalidates after
+  // the origin, in the requested mode (see cache-handler-registry.mjs). The
+  // pages of deleted entries carry those keys, so their route paths are only
+  // purged here for tags invalidated some other way: a hard path purge would
+  // undo a soft purge
+  async onRevalidateComplete(tags, deletedKeys) {
+    // Deleted keys don't say which cache they were in
+    for (const cacheKey of deletedKeys) {
+      publishEntryChange('delete', `fetch:${toStorageName(cacheKey)}`);
+      publishEntryChange('delete', `route:${toStorageName(cacheKey)}`);
+    }
+
+    const uncoordinatedTags = tags.filter(tag => !isCoordinatedTag(tag));
+    if (uncoordinatedTags.length === 0) return;
+
+    return super.onRevalidateComplete(uncoordinatedTags, deletedKeys);
+  }
+}
+
 export default CacheHandler;
@@ -0,0 +1,19 @@
+// Custom cacheLife profiles for the 'use cache' directive
+// Shared by next.config.mjs (cacheLife option) and lib/cache-control-policy.ts
+// (Cache-Control / Surrogate-Control headers), so both stay in sync.
+
+/** @type {Record<string, { stale: number, revalidate: number, expire: number }>} */
+export const cacheLifeProfiles = {
+  // Short-lived cache for testing (30s stale, 60s revalidate, 5min expire)
+  short: {
+    stale: 60,
+    revalidate: 60,
+    expire: 3600,
+  },
+  // Blog-style cache (1min stale, 5min revalidate, 1hr expire)
+  blog: {
+    stale: 60,
+    revalidate: 300,
+    expire: 3600,
+  },
+};
@@ -0,0 +1,145 @@
+// Cache metrics recorder shared by cache-handler.mjs and use-cache-handler.mjs
+//
+// Counts and times every cache handler call by layer, backend and route.
+// State lives on globalThis (like the request context) because the handlers
+// are loaded by Next.js in a different module context than the app code;
+// lib/cache-metrics.ts reads it and renders it for /api/metrics.
+
+import { CACHE_BACKEND, getRequestContext } from './cache-request-context.mjs';
+
+const CACHE_METRICS_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-metrics');
+
+// Histogram upper bounds, in seconds
+export const DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Distinct route labels kept; later routes are counted as 'other'
+const MAX_ROUTES = 100;
+
+function getState() {
+  globalThis[CACHE_METRICS_SYMBOL] ??= {
+    since: new Date().toISOString(),
+    counters: {},
+    histograms: {},
+    routes: [],
+  };
+  return globalThis[CACHE_METRICS_SYMBOL];
+}
+
+function labelKey(labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function increment(name, labels, amount = 1) {
+  const series = (getState().counters[name] ??= {});
+  const key = labelKey(labels);
+  series[key] ??= { labels, value: 0 };
+  series[key].value += amount;
+}
+
+function observe(name, labels, seconds) {
+  const series = (getState().histograms[name] ??= {});
+  const key = labelKey(labels);
+  series[key] ??= { labels, buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+
+  const histogram = series[key];
+  const bucket = DURATION_BUCKETS.findIndex((bound) => seconds <= bound);
+  if (bucket !== -1) {
+    histogram.buckets[bucket]++;
+  }
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+/**
+ * Route of the request being served ('none' outside a request, e.g.
+ * background revalidation).
+ */
+function getRouteLabel() {
+  const route = getRequestContext()?.route;
+  if (!route) {
+    return 'none';
+  }
+
+  const { routes } = getState();
+  if (routes.includes(route)) {
+    return route;
+  }
+  if (routes.length < MAX_ROUTES) {
+    routes.push(route);
+    return route;
+  }
+  return 'other';
+}
+
+/**
+ * Record a cache handler call.
+ *
+ * - result: hit/miss/stale for get, ok/error otherwise
+ * - bytes:  payload size of a set
+ * - tags:   number of tags of a revalidateTag/updateTags call
+ */
+export function recordCacheOperation({ layer, operation, result, durationMs, bytes, tags }) {
+  const route = getRouteLabel();
+
+  increment('operations', { layer, backend: CACHE_BACKEND, operation, route, result });
+  observe('operation_duration', { layer, backend: CACHE_BACKEND, operation }, durationMs / 1000);
+
+  if (bytes !== undefined) {
+    increment('set_bytes', { layer, backend: CACHE_BACKEND }, bytes);
+  }
+  if (tags !== undefined && result === 'ok') {
+    increment('revalidations', { layer });
+    increment('revalidated_tags', { layer }, tags);
+  }
+}
+
+/**
+ * Run a handler call and record it as ok/error.
+ */
+export async function measureCacheOperation(layer, operation, call, details = {}) {
+  const startTime = performance.now();
+  let result = 'error';
+
+  try {
+    const value = await call();
+    result = 'ok';
+    return value;
+  } finally {
+    recordCacheOperation({ layer, operation, result, durationMs: performance.now() - startTime, ...details });
+  }
+}
+
+/**
+ * Approximate size of a legacy cache value (Buffers and strings, recursively).
+ */
+export function estimateBytes(value) {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'string') return Buffer.byteLength(value);
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (value instanceof Map) {
+    let total = 0;
+    for (const [key, entry] of value) total += estimateBytes(key) + estimateBytes(entry);
+    return total;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((total, item) => total + estimateBytes(item), 0);
+  }
+  if (typeof value === 'object') {
+    return Object.values(value).reduce((total, item) => total + estimateBytes(item), 0);
+  }
+  return 8;
+}
+
+/**
+ * Count the bytes of a stream (a tee'd branch of a 'use cache' entry).
+ */
+export async function countStreamBytes(stream) {
+  const reader = stream.getReader();
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return total;
+    total += value?.byteLength ?? 0;
+  }
+}
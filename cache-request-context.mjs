@@ -0,0 +1,41 @@
+// Request context helpers shared by cache-handler.mjs and use-cache-handler.mjs
+//
+// The request context is registered by server.ts (see lib/request-context.ts).
+// It is looked up through globalThis because the cache handlers are loaded by
+// Next.js in a different module context than the custom server.
+
+const REQUEST_CONTEXT_SYMBOL = Symbol.for('@nextjs-cache-test-app/request-context');
+
+// Mirrors createCacheHandler({ type: 'auto' }) backend selection
+export const CACHE_BACKEND = process.env.CACHE_BUCKET ? 'gcs' : 'file';
+
+/**
+ * Get the context of the request currently being served, if any.
+ */
+export function getRequestContext() {
+  return globalThis[REQUEST_CONTEXT_SYMBOL]?.get();
+}
+
+/**
+ * Record cache tags on the request that is currently being served so
+ * server.ts can emit them as the Surrogate-Key header for that request only.
+ */
+export function collectRequestTags(tags) {
+  const context = getRequestContext();
+
+  if (context && tags?.length > 0) {
+    context.tags.push(...tags);
+  }
+}
+
+/**
+ * Record a cache lookup (hit/miss/stale) on the current request so server.ts
+ * can report it in Server-Timing and X-Nextjs-Cache-Detail.
+ */
+export function recordCacheLookup(lookup) {
+  const context = getRequestContext();
+
+  if (context) {
+    context.lookups.push({ backend: CACHE_BACKEND, ...lookup });
+  }
+}
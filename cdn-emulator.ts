@@ -0,0 +1,647 @@
+import {
+  createServer,
+  request as httpRequest,
+  Agent,
+  IncomingHttpHeaders,
+  IncomingMessage,
+  OutgoingHttpHeaders,
+  ServerResponse,
+} from 'http';
+import { connect, Socket } from 'net';
+
+/**
+ * Local CDN emulator.
+ *
+ * A caching reverse proxy that sits in front of server.ts and behaves like
+ * the platform edge, so the publish → purge → refresh flow can be exercised
+ * on one machine:
+ *
+ *   client → cdn-emulator (CDN_EMULATOR_PORT, 8080) → server.ts (CDN_EMULATOR_ORIGIN)
+ *
+ * Caching:
+ * - GET responses with status 200, 203, 300, 301, 302, 404 or 410 are stored
+ *   for Surrogate-Control max-age, or else Cache-Control s-maxage / max-age.
+ *   private, no-store, no-cache, Set-Cookie and `Vary: *` are not cached
+ *   (PASS). Surrogate-Control, when present, decides on its own.
+ * - stale-while-revalidate: an expired object is served (STALE) while it is
+ *   refetched in the background; stale-if-error: it is served if the origin
+ *   fails
+ * - Variants are keyed on the request headers the origin listed in Vary
+ *   (RSC requests get their own objects)
+ * - Concurrent misses for the same object share one origin request. Until
+ *   the origin's Vary is known for a URL, they are grouped by the request
+ *   headers Next.js varies on, so RSC and HTML requests are not collapsed
+ * - Responses carry `X-Cache: HIT | MISS | STALE | PASS`, `X-Cache-Hits` and
+ *   `Age`; Surrogate-Control is stripped, Surrogate-Key is kept
+ *
+ * Purge API (same paths as the outbound proxy, lib/cdn/outbound-proxy.ts):
+ *
+ *   DELETE /rest/v0alpha1/cache              purge everything
+ *   DELETE /rest/v0alpha1/cache/keys/<key>   purge objects tagged <key> (Surrogate-Key)
+ *   DELETE /rest/v0alpha1/cache/paths/<path> purge /<path> (every query string and variant)
+ *   GET    /rest/v0alpha1/cache[/keys/<key>] list cached objects
+ *
+ * `Fastly-Soft-Purge: 1` marks objects stale instead of deleting them. When
+ * OUTBOUND_PROXY_TOKEN is set, purges need `Authorization: Bearer <token>`.
+ *
+ * Usage:
+ *   OUTBOUND_PROXY_ENDPOINT=localhost:8080 npx tsx server.ts
+ *   npm run cdn-emulator
+ *
+ * Objects live in memory (CDN_EMULATOR_MAX_OBJECTS, least recently used
+ * evicted first) and are lost on restart.
+ */
+
+interface CachedObject {
+  /** Cache key: URL plus the Vary'd request header values */
+  id: string;
+  /** Path and query string */
+  url: string;
+  pathname: string;
+  status: number;
+  headers: OutgoingHttpHeaders;
+  body: Buffer;
+  surrogateKeys: string[];
+  storedAt: number;
+  /** Fresh until (Date.now() ms); soft purges move it to the purge time */
+  staleAt: number;
+  staleWhileRevalidateMs: number;
+  staleIfErrorMs: number;
+  hits: number;
+}
+
+interface CachePolicy {
+  cacheable: boolean;
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+  staleIfErrorMs: number;
+  /** Why the response is not cached */
+  reason?: string;
+}
+
+type CacheState = 'HIT' | 'MISS' | 'STALE' | 'PASS';
+
+const port = parseInt(process.env.CDN_EMULATOR_PORT || '8080', 10);
+const origin = new URL(process.env.CDN_EMULATOR_ORIGIN || 'http://localhost:3000');
+const maxObjects = Math.max(1, parseInt(process.env.CDN_EMULATOR_MAX_OBJECTS || '1000', 10) || 1000);
+const purgeToken = process.env.OUTBOUND_PROXY_TOKEN;
+
+const PURGE_API_PREFIX = '/rest/v0alpha1/cache';
+const CACHEABLE_STATUSES = new Set([200, 203, 300, 301, 302, 404, 410]);
+
+// Hop-by-hop headers are never forwarded (RFC 9110 §7.6.1)
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+const originAgent = new Agent({ keepAlive: true });
+
+// Map order is least → most recently used
+const objects = new Map<string, CachedObject>();
+// Surrogate key → ids of the objects tagged with it
+const keyIndex = new Map<string, Set<string>>();
+// URL → request headers its responses vary on
+const varyByUrl = new Map<string, string[]>();
+// Origin fetches in progress, for request collapsing
+const inflight = new Map<string, Promise<CachedObject | null>>();
+
+// Request headers Next.js lists in Vary, assumed for a URL the origin has
+// not answered yet
+const NEXT_VARY_HEADERS = ['rsc', 'next-router-state-tree', 'next-router-prefetch', 'next-router-segment-prefetch'];
+
+const stats = { hits: 0, misses: 0, stale: 0, passes: 0, purges: 0 };
+
+// ============================================================================
+// Cache policy
+// ============================================================================
+
+function parseDirectives(header: string | string[] | undefined): Map<string, string> {
+  const directives = new Map<string, string>();
+  const value = Array.isArray(header) ? header.join(',') : header;
+
+  for (const part of (value ?? '').split(',')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) {
+      directives.set(name.toLowerCase(), rest.join('=').replace(/^"|"$/g, ''));
+    }
+  }
+
+  return directives;
+}
+
+function seconds(directives: Map<string, string>, name: string): number | undefined {
+  const value = parseInt(directives.get(name) ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Decide whether and for how long an origin response is cached.
+ */
+function getCachePolicy(status: number, headers: IncomingHttpHeaders): CachePolicy {
+  const uncached = (reason: string): CachePolicy => ({
+    cacheable: false,
+    ttlMs: 0,
+    staleWhileRevalidateMs: 0,
+    staleIfErrorMs: 0,
+    reason,
+  });
+
+  if (!CACHEABLE_STATUSES.has(status)) return uncached(`status ${status}`);
+  if (headers['set-cookie']) return uncached('Set-Cookie');
+  if (String(headers.vary ?? '').trim() === '*') return uncached('Vary: *');
+
+  const surrogateControl = headers['surrogate-control'];
+  const directives = parseDirectives(surrogateControl ?? headers['cache-control']);
+
+  if (!surrogateControl && (directives.has('private') || directives.has('no-cache'))) {
+    return uncached('Cache-Control: private/no-cache');
+  }
+  if (directives.has('no-store')) return uncached('no-store');
+
+  const ttl = surrogateControl
+    ? seconds(directives, 'max-age')
+    : seconds(directives, 's-maxage') ?? seconds(directives, 'max-age');
+
+  if (!ttl) return uncached('no TTL');
+
+  return {
+    cacheable: true,
+    ttlMs: ttl * 1000,
+    staleWhileRevalidateMs: (seconds(directives, 'stale-while-revalidate') ?? 0) * 1000,
+    staleIfErrorMs: (seconds(directives, 'stale-if-error') ?? 0) * 1000,
+  };
+}
+
+// ============================================================================
+// Object store
+// ============================================================================
+
+function getVaryHeaders(headers: IncomingHttpHeaders): string[] {
+  return String(headers.vary ?? '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function getObjectId(url: string, headers: IncomingHttpHeaders, vary = varyByUrl.get(url) ?? []): string {
+  return [url, ...vary.map(name => `${name}=${String(headers[name] ?? '')}`)].join('\n');
+}
+
+/**
+ * Key for collapsing concurrent misses: the object ID once the URL's Vary is
+ * known, before that the variant Next.js would produce.
+ */
+function getFillId(url: string, headers: IncomingHttpHeaders): string {
+  return getObjectId(url, headers, varyByUrl.get(url) ?? NEXT_VARY_HEADERS);
+}
+
+function deleteObject(id: string): void {
+  const object = objects.get(id);
+  if (!object) return;
+
+  objects.delete(id);
+  for (const key of object.surrogateKeys) {
+    const ids = keyIndex.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) keyIndex.delete(key);
+  }
+}
+
+function storeObject(object: CachedObject): void {
+  deleteObject(object.id);
+
+  if (objects.size >= maxObjects) {
+    const oldest = objects.keys().next().value;
+    if (oldest !== undefined) deleteObject(oldest);
+  }
+
+  objects.set(object.id, object);
+  for (const key of object.surrogateKeys) {
+    if (!keyIndex.has(key)) keyIndex.set(key, new Set());
+    keyIndex.get(key)!.add(object.id);
+  }
+}
+
+function touchObject(object: CachedObject): void {
+  objects.delete(object.id);
+  objects.set(object.id, object);
+}
+
+function describeObject(object: CachedObject, now: number) {
+  return {
+    url: object.url,
+    status: object.status,
+    surrogate_keys: object.surrogateKeys,
+    state: now < object.staleAt ? 'fresh' : 'stale',
+    age_seconds: Math.floor((now - object.storedAt) / 1000),
+    ttl_seconds: Math.max(0, Math.ceil((object.staleAt - now) / 1000)),
+    hits: object.hits,
+    bytes: object.body.length,
+  };
+}
+
+// ============================================================================
+// Origin
+// ============================================================================
+
+function forwardableHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !HOP_BY_HOP_HEADERS.has(name))
+  );
+}
+
+function originRequestHeaders(req: IncomingMessage, options: { conditional: boolean }): OutgoingHttpHeaders {
+  const headers: OutgoingHttpHeaders = forwardableHeaders(req.headers);
+  const clientIp = req.socket.remoteAddress ?? '';
+
+  headers['x-forwarded-for'] = req.headers['x-forwarded-for'] ? `${req.headers['x-forwarded-for']}, ${clientIp}` : clientIp;
+  headers['x-forwarded-host'] = req.headers.host ?? '';
+  headers['x-forwarded-proto'] = 'http';
+
+  // Cache fills need the full body, not the client's 304
+  if (!options.conditional) {
+    delete headers['if-none-match'];
+    delete headers['if-modified-since'];
+  }
+
+  return headers;
+}
+
+function requestOrigin(
+  req: IncomingMessage,
+  url: string,
+  options: { method?: string; conditional: boolean }
+): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const originReq = httpRequest({
+      protocol: origin.protocol,
+      hostname: origin.hostname,
+      port: origin.port,
+      method: options.method ?? req.method,
+      path: url,
+      headers: originRequestHeaders(req, options),
+      agent: originAgent,
+    }, resolve);
+
+    originReq.on('error', reject);
+
+    if (options.method === 'GET') {
+      originReq.end();
+    } else {
+      req.pipe(originReq);
+    }
+  });
+}
+
+function readBody(res: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.on('end', () => resolve(Buffer.concat(chunks)));
+    res.on('error', reject);
+  });
+}
+
+/**
+ * Fetch a URL from the origin and store it if cacheable. Resolves to the
+ * stored object, or null (with the unconsumed response) when it must pass.
+ */
+async function fillFromOrigin(
+  req: IncomingMessage,
+  url: string
+): Promise<{ object: CachedObject | null; passResponse?: IncomingMessage; reason?: string }> {
+  const originRes = await requestOrigin(req, url, { method: 'GET', conditional: false });
+  const status = originRes.statusCode ?? 502;
+  const policy = getCachePolicy(status, originRes.headers);
+
+  if (!policy.cacheable) {
+    return { object: null, passResponse: originRes, reason: policy.reason };
+  }
+
+  const body = await readBody(originRes);
+  const now = Date.now();
+  const headers: OutgoingHttpHeaders = forwardableHeaders(originRes.headers);
+  delete headers['surrogate-control'];
+  delete headers['content-length'];
+
+  varyByUrl.set(url, getVaryHeaders(originRes.headers));
+
+  const object: CachedObject = {
+    id: getObjectId(url, req.headers),
+    url,
+    pathname: new URL(url, 'http://localhost').pathname,
+    status,
+    headers,
+    body,
+    surrogateKeys: String(originRes.headers['surrogate-key'] ?? '').split(/\s+/).filter(Boolean),
+    storedAt: now,
+    staleAt: now + policy.ttlMs,
+    staleWhileRevalidateMs: policy.staleWhileRevalidateMs,
+    staleIfErrorMs: policy.staleIfErrorMs,
+    hits: 0,
+  };
+
+  storeObject(object);
+  return { object };
+}
+
+/**
+ * Refetch a stale object once, however many requests are served it meanwhile.
+ */
+function revalidateInBackground(req: IncomingMessage, object: CachedObject): void {
+  if (inflight.has(object.id)) return;
+
+  const refresh = fillFromOrigin(req, object.url)
+    .then(({ object: refreshed, passResponse, reason }) => {
+      if (!refreshed) {
+        passResponse?.resume();
+        deleteObject(object.id);
+        console.log(`[CdnEmulator] Revalidated ${object.url}: no longer cacheable (${reason}), removed`);
+      }
+      return refreshed;
+    })
+    .catch(error => {
+      console.error(`[CdnEmulator] Background revalidation of ${object.url} failed:`, error.message);
+      return null;
+    })
+    .finally(() => {
+      if (inflight.get(object.id) === refresh) {
+        inflight.delete(object.id);
+      }
+    });
+
+  inflight.set(object.id, refresh);
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+function sendObject(req: IncomingMessage, res: ServerResponse, object: CachedObject, state: CacheState): void {
+  const now = Date.now();
+  const etag = object.headers.etag;
+
+  res.setHeader('X-Cache', state);
+  res.setHeader('X-Cache-Hits', String(object.hits));
+  res.setHeader('Age', String(Math.floor((now - object.storedAt) / 1000)));
+
+  if (etag && req.headers['if-none-match'] === etag) {
+    res.writeHead(304, { etag });
+    res.end();
+    return;
+  }
+
+  res.writeHead(object.status, { ...object.headers, 'content-length': object.body.length });
+  res.end(req.method === 'HEAD' ? undefined : object.body);
+}
+
+function sendPass(res: ServerResponse, originRes: IncomingMessage, state: CacheState): void {
+  const headers = forwardableHeaders(originRes.headers);
+  delete headers['surrogate-control'];
+
+  res.writeHead(originRes.statusCode ?? 502, { ...headers, 'x-cache': state });
+  originRes.pipe(res);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json', 'cache-control': 'no-store' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function sendOriginError(res: ServerResponse, error: unknown): void {
+  console.error('[CdnEmulator] Origin request failed:', error instanceof Error ? error.message : error);
+  if (!res.headersSent) {
+    res.writeHead(503, { 'content-type': 'text/plain', 'x-cache': 'MISS' });
+  }
+  res.end('Origin unreachable');
+}
+
+/**
+ * Forward a request the cache doesn't handle (non-GET, HEAD misses).
+ */
+async function pass(req: IncomingMessage, res: ServerResponse, url: string): Promise<void> {
+  stats.passes++;
+  try {
+    sendPass(res, await requestOrigin(req, url, { conditional: true }), 'PASS');
+  } catch (error) {
+    sendOriginError(res, error);
+  }
+}
+
+async function handleCacheable(req: IncomingMessage, res: ServerResponse, url: string): Promise<void> {
+  const id = getObjectId(url, req.headers);
+  const cached = objects.get(id);
+  const now = Date.now();
+
+  if (cached) {
+    touchObject(cached);
+    cached.hits++;
+
+    if (now < cached.staleAt) {
+      stats.hits++;
+      sendObject(req, res, cached, 'HIT');
+      return;
+    }
+
+    if (now < cached.staleAt + cached.staleWhileRevalidateMs) {
+      stats.stale++;
+      revalidateInBackground(req, cached);
+      sendObject(req, res, cached, 'STALE');
+      return;
+    }
+  }
+
+  if (req.method === 'HEAD') {
+    await pass(req, res, url);
+    return;
+  }
+
+  // Collapse concurrent misses onto the fetch in progress. The origin may
+  // vary on more than was assumed, so only a fill of this request's variant
+  // is served
+  const fillId = getFillId(url, req.headers);
+  const pending = inflight.get(fillId);
+  if (pending) {
+    const object = await pending;
+    if (object && object.id === getObjectId(url, req.headers)) {
+      stats.misses++;
+      sendObject(req, res, object, 'MISS');
+      return;
+    }
+  }
+
+  let resolveInflight: (object: CachedObject | null) => void = () => {};
+  const fill = new Promise<CachedObject | null>(resolve => { resolveInflight = resolve; });
+  inflight.set(fillId, fill);
+
+  try {
+    const { object, passResponse, reason } = await fillFromOrigin(req, url);
+    resolveInflight(object);
+
+    if (object) {
+      stats.misses++;
+      sendObject(req, res, object, 'MISS');
+    } else if (passResponse) {
+      // stale-if-error covers origin 5xx as well as network errors
+      if (cached && (passResponse.statusCode ?? 502) >= 500 && now < cached.staleAt + cached.staleIfErrorMs) {
+        passResponse.resume();
+        stats.stale++;
+        console.warn(`[CdnEmulator] Origin returned ${passResponse.statusCode}, serving stale ${url}`);
+        sendObject(req, res, cached, 'STALE');
+        return;
+      }
+
+      stats.passes++;
+      console.log(`[CdnEmulator] PASS ${url} (${reason})`);
+      sendPass(res, passResponse, 'PASS');
+    }
+  } catch (error) {
+    resolveInflight(null);
+
+    // stale-if-error: keep serving what we have
+    if (cached && now < cached.staleAt + cached.staleIfErrorMs) {
+      stats.stale++;
+      console.warn(`[CdnEmulator] Origin failed, serving stale ${url}`);
+      sendObject(req, res, cached, 'STALE');
+      return;
+    }
+    sendOriginError(res, error);
+  } finally {
+    if (inflight.get(fillId) === fill) {
+      inflight.delete(fillId);
+    }
+  }
+}
+
+// ============================================================================
+// Purge API
+// ============================================================================
+
+function purgeObjects(ids: Iterable<string>, soft: boolean): string[] {
+  const now = Date.now();
+  const urls: string[] = [];
+
+  for (const id of [...ids]) {
+    const object = objects.get(id);
+    if (!object) continue;
+
+    urls.push(object.url);
+    if (soft) {
+      object.staleAt = Math.min(object.staleAt, now);
+    } else {
+      deleteObject(id);
+    }
+  }
+
+  return urls;
+}
+
+function handlePurgeApi(req: IncomingMessage, res: ServerResponse, pathname: string): void {
+  const resource = pathname.slice(PURGE_API_PREFIX.length);
+  const now = Date.now();
+
+  if (req.method === 'GET') {
+    const key = resource.startsWith('/keys/') ? decodeURIComponent(resource.slice('/keys/'.length)) : null;
+    const listed = key === null
+      ? [...objects.values()]
+      : [...(keyIndex.get(key) ?? [])].map(id => objects.get(id)!).filter(Boolean);
+
+    sendJson(res, 200, {
+      objects: listed.length,
+      stats,
+      ...(key === null && { surrogate_keys: keyIndex.size }),
+      entries: listed.reverse().map(object => describeObject(object, now)),
+    });
+    return;
+  }
+
+  if (req.method !== 'DELETE') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  if (purgeToken && req.headers.authorization !== `Bearer ${purgeToken}`) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const soft = req.headers['fastly-soft-purge'] === '1';
+  let target: string;
+  let urls: string[];
+
+  if (resource === '' || resource === '/') {
+    target = '*';
+    urls = purgeObjects(objects.keys(), soft);
+  } else if (resource.startsWith('/keys/')) {
+    target = decodeURIComponent(resource.slice('/keys/'.length));
+    urls = purgeObjects(keyIndex.get(target) ?? [], soft);
+  } else if (resource.startsWith('/paths/')) {
+    target = `/${resource.slice('/paths/'.length).split('/').map(decodeURIComponent).join('/')}`;
+    urls = purgeObjects(
+      [...objects.values()].filter(object => object.pathname === target).map(object => object.id),
+      soft
+    );
+  } else {
+    sendJson(res, 404, { error: 'Unknown purge resource' });
+    return;
+  }
+
+  stats.purges++;
+  console.log(`[CdnEmulator] ${soft ? 'Soft' : 'Hard'} purge ${target}: ${urls.length} objects`);
+
+  sendJson(res, 200, { status: 'ok', target, mode: soft ? 'soft' : 'hard', purged: urls.length, urls });
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+  const url = req.url || '/';
+  const { pathname } = new URL(url, 'http://localhost');
+
+  if (pathname === PURGE_API_PREFIX || pathname.startsWith(`${PURGE_API_PREFIX}/`)) {
+    handlePurgeApi(req, res, pathname);
+    return;
+  }
+
+  const handled = req.method === 'GET' || req.method === 'HEAD'
+    ? handleCacheable(req, res, url)
+    : pass(req, res, url);
+
+  handled.catch(error => sendOriginError(res, error));
+});
+
+// WebSockets (next dev HMR) are tunnelled to the origin untouched
+server.on('upgrade', (req: IncomingMessage, socket: Socket, head: Buffer) => {
+  const upstream = connect(Number(origin.port) || 80, origin.hostname, () => {
+    const headerLines = Object.entries(req.headers).map(([name, value]) => `${name}: ${value}`);
+    upstream.write(`${req.method} ${req.url} HTTP/1.1\r\n${headerLines.join('\r\n')}\r\n\r\n`);
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+
+  upstream.on('error', () => socket.destroy());
+  socket.on('error', () => upstream.destroy());
+});
+
+server.listen(port, () => {
+  console.log(`> CDN emulator on http://localhost:${port} → ${origin.origin}`);
+  console.log(`> Purge API: OUTBOUND_PROXY_ENDPOINT=localhost:${port}${purgeToken ? ' (token required)' : ''}`);
+});
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    server.close();
+    server.closeAllConnections();
+    process.exit(0);
+  });
+}
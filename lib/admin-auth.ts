@@ -0,0 +1,256 @@
+/**
+ * Admin Authorization
+ *
+ * Destructive and introspective endpoints (CDN purges, cache wipes, stats,
+ * logs, debug output) require a bearer token with the right scope:
+ *
+ *   Authorization: Bearer <token>
+ *
+ * Scopes:
+ * - purge:      clear the CDN or the origin cache, revalidate paths
+ * - read-stats: cache statistics, purge queue, audit log, scheduled jobs
+ * - debug:      request headers and environment
+ *
+ * Tokens come from the environment:
+ * - ADMIN_TOKENS: JSON array of `{ "name", "token", "scopes" }`
+ * - ADMIN_TOKEN:  a single token with every scope (named "admin")
+ *
+ * ADMIN_IP_ALLOWLIST (comma-separated IPs or IPv4 CIDRs) additionally limits
+ * where admin requests may come from. The client IP is read from the trusted
+ * end of X-Forwarded-For: server.ts appends the peer address, and
+ * TRUSTED_PROXY_COUNT (default 1, the platform CDN) proxies in front of it
+ * each appended theirs. Entries further left are sent by the client and are
+ * ignored. Set TRUSTED_PROXY_COUNT=0 when clients connect directly.
+ *
+ * Errors are JSON `{ error, message }`: 401 for a missing or unknown token,
+ * 403 for a missing scope or a disallowed IP, 503 when no token is
+ * configured. Every denial is logged.
+ *
+ * ADMIN_AUTH_DISABLED=true skips all checks, for local development only;
+ * production refuses to start with it (see assertAdminAuthConfig).
+ *
+ * Webhook routes (/api/revalidate, -batch, -schedule) keep their HMAC
+ * signatures (lib/webhook-signature.ts). The background task routes are E2E
+ * fixtures that only touch their own markers and stay open.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+export type AdminScope = 'purge' | 'read-stats' | 'debug';
+
+export const ADMIN_SCOPES: AdminScope[] = ['purge', 'read-stats', 'debug'];
+
+interface AdminToken {
+  name: string;
+  token: string;
+  scopes: AdminScope[];
+}
+
+export type AdminAuthorization =
+  | { ok: true; principal: string }
+  | { ok: false; response: Response };
+
+interface HeadersLike {
+  get(name: string): string | null;
+}
+
+function isAdminToken(value: unknown): value is AdminToken {
+  const token = value as AdminToken;
+  return !!token
+    && typeof token.name === 'string'
+    && typeof token.token === 'string'
+    && token.token.length > 0
+    && Array.isArray(token.scopes)
+    && token.scopes.every(scope => ADMIN_SCOPES.includes(scope));
+}
+
+/**
+ * Parse ADMIN_TOKENS and ADMIN_TOKEN. Invalid ADMIN_TOKENS is logged and
+ * ignored, so a typo locks the endpoints instead of opening them.
+ */
+function loadTokens(): AdminToken[] {
+  const tokens: AdminToken[] = [];
+  const raw = process.env.ADMIN_TOKENS;
+
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed) && parsed.every(isAdminToken)) {
+        tokens.push(...parsed);
+      } else {
+        console.error(`[AdminAuth] ADMIN_TOKENS must be an array of { name, token, scopes } (scopes: ${ADMIN_SCOPES.join(', ')}), ignoring it`);
+      }
+    } catch (error) {
+      console.error('[AdminAuth] Failed to parse ADMIN_TOKENS, ignoring it:', error);
+    }
+  }
+
+  if (process.env.ADMIN_TOKEN) {
+    tokens.push({ name: 'admin', token: process.env.ADMIN_TOKEN, scopes: ADMIN_SCOPES });
+  }
+
+  return tokens;
+}
+
+function readNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function getConfig() {
+  return {
+    tokens: loadTokens(),
+    allowlist: (process.env.ADMIN_IP_ALLOWLIST || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean),
+    trustedProxyCount: readNonNegativeInt(process.env.TRUSTED_PROXY_COUNT, 1),
+    disabled: process.env.ADMIN_AUTH_DISABLED === 'true',
+  };
+}
+
+const CONFIG = getConfig();
+
+/**
+ * Throw if the admin auth configuration is unsafe for production.
+ * Called by server.ts at startup.
+ */
+export function assertAdminAuthConfig(): void {
+  if (process.env.NODE_ENV === 'production' && CONFIG.disabled) {
+    throw new Error('ADMIN_AUTH_DISABLED=true is not permitted in production');
+  }
+  if (!CONFIG.disabled && CONFIG.tokens.length === 0) {
+    console.warn('[AdminAuth] WARNING: no ADMIN_TOKEN or ADMIN_TOKENS configured - admin endpoints will return 503');
+  }
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Find the token in constant time (digests have equal lengths).
+ */
+function findToken(tokens: AdminToken[], candidate: string): AdminToken | undefined {
+  const candidateDigest = digest(candidate);
+  return tokens.find(token => timingSafeEqual(digest(token.token), candidateDigest));
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function matchesAllowlistEntry(ip: string, entry: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is compared as IPv4
+  const normalizedIp = ip.replace(/^::ffff:/, '');
+  const [range, bits] = entry.split('/');
+
+  if (bits === undefined) {
+    return normalizedIp === range.replace(/^::ffff:/, '');
+  }
+
+  const ipValue = ipv4ToNumber(normalizedIp);
+  const rangeValue = ipv4ToNumber(range);
+  const prefix = Number(bits);
+
+  if (ipValue === null || rangeValue === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    return false;
+  }
+
+  // Same network if the addresses agree on the first `prefix` bits
+  // (arithmetic rather than bitwise ops, which are 32-bit signed)
+  const blockSize = 2 ** (32 - prefix);
+  return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+}
+
+/**
+ * Client IP as seen by the outermost trusted proxy: the X-Forwarded-For
+ * entry TRUSTED_PROXY_COUNT places left of the peer address server.ts
+ * appended. Shorter chains fall back to their first entry, which a trusted
+ * hop added.
+ */
+export function getClientIp(headers: HeadersLike): string {
+  const chain = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  return chain[Math.max(0, chain.length - 1 - CONFIG.trustedProxyCount)] || 'unknown';
+}
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+function deny(request: Request, status: 401 | 403 | 503, error: string, message: string): AdminAuthorization {
+  const { pathname } = new URL(request.url);
+  console.warn(`[AdminAuth] Denied ${request.method} ${pathname} from ${getClientIp(request.headers)}: ${message}`);
+
+  return {
+    ok: false,
+    // Plain Response: server.ts loads this module before Next.js is ready
+    response: Response.json(
+      { error, message },
+      {
+        status,
+        headers: {
+          'Cache-Control': 'private, no-cache, no-store, max-age=0, must-revalidate',
+          ...(status === 401 && { 'WWW-Authenticate': 'Bearer realm="admin"' }),
+        },
+      }
+    ),
+  };
+}
+
+/**
+ * Authorize an admin request for a scope.
+ *
+ * On success returns the token name (for audit records); otherwise the
+ * error response to return as is.
+ */
+export function authorizeAdminRequest(request: Request, scope: AdminScope): AdminAuthorization {
+  const { tokens, allowlist, disabled } = CONFIG;
+
+  if (disabled) {
+    return { ok: true, principal: 'unauthenticated' };
+  }
+
+  if (tokens.length === 0) {
+    return deny(request, 503, 'Service Unavailable', 'Admin authentication is not configured');
+  }
+
+  const ip = getClientIp(request.headers);
+  if (allowlist.length > 0 && !allowlist.some(entry => matchesAllowlistEntry(ip, entry))) {
+    return deny(request, 403, 'Forbidden', `Client IP ${ip} is not allowed`);
+  }
+
+  const authorization = request.headers.get('authorization') || '';
+  const match = /^Bearer\s+(.+)$/i.exec(authorization);
+  if (!match) {
+    return deny(request, 401, 'Unauthorized', 'Missing bearer token');
+  }
+
+  const token = findToken(tokens, match[1].trim());
+  if (!token) {
+    return deny(request, 401, 'Unauthorized', 'Invalid bearer token');
+  }
+
+  if (!token.scopes.includes(scope)) {
+    return deny(request, 403, 'Forbidden', `Token '${token.name}' lacks the '${scope}' scope`);
+  }
+
+  return { ok: true, principal: token.name };
+}
@@ -0,0 +1,176 @@
+/**
+ * Cache-Control Policy
+ *
+ * Derives CDN response headers from the same cacheLife profiles that drive
+ * the 'use cache' directive, so the edge never caches longer (or shorter)
+ * than the origin cache entry it is serving:
+ *
+ * - Cache-Control:     public, max-age=0, s-maxage=<revalidate>,
+ *                      stale-while-revalidate=<expire - revalidate>, stale-if-error=<expire>
+ * - Surrogate-Control: max-age=<revalidate>, stale-while-revalidate=..., stale-if-error=...
+ *
+ * Browsers always revalidate (max-age=0) so a Surrogate-Key purge takes
+ * effect immediately for end users.
+ */
+
+import { cacheLifeProfiles } from '../cache-life-profiles.mjs';
+
+/**
+ * cacheLife() configuration, either a named profile or inline values (seconds).
+ */
+export interface CacheLifeConfig {
+  stale?: number;
+  revalidate?: number;
+  expire?: number;
+}
+
+export type CacheLifeInput = string | CacheLifeConfig;
+
+export interface ResolvedCacheLife {
+  stale: number;
+  revalidate: number;
+  expire: number;
+}
+
+// Built-in Next.js 16 profiles (next/dist/server/config-shared.js)
+const BUILT_IN_PROFILES: Record<string, CacheLifeConfig> = {
+  default: { revalidate: 60 * 15, expire: Infinity },
+  seconds: { stale: 30, revalidate: 1, expire: 60 },
+  minutes: { stale: 60 * 5, revalidate: 60, expire: 60 * 60 },
+  hours: { stale: 60 * 5, revalidate: 60 * 60, expire: 60 * 60 * 24 },
+  days: { stale: 60 * 5, revalidate: 60 * 60 * 24, expire: 60 * 60 * 24 * 7 },
+  weeks: { stale: 60 * 5, revalidate: 60 * 60 * 24 * 7, expire: 60 * 60 * 24 * 30 },
+  max: { stale: 60 * 5, revalidate: 60 * 60 * 24 * 30, expire: 60 * 60 * 24 * 365 },
+};
+
+// Profiles from next.config.mjs override built-ins of the same name
+const PROFILES: Record<string, CacheLifeConfig> = {
+  ...BUILT_IN_PROFILES,
+  ...cacheLifeProfiles,
+};
+
+// Infinity (and Next.js' INFINITE_CACHE sentinel) are capped at one year
+const MAX_HEADER_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * cacheLife of WordPress content (lib/wordpressService.ts): kept until a
+ * webhook invalidates its tags, so the edge holds it (for a year) until the
+ * matching Surrogate-Key purge.
+ */
+export const WORDPRESS_CACHE_LIFE: CacheLifeConfig = { stale: Infinity, revalidate: Infinity, expire: Infinity };
+
+/**
+ * Page routes served through server.ts and the cacheLife their data uses,
+ * which must match the page's cacheLife() call. Patterns support a trailing
+ * `*` wildcard. Routes not listed (e.g. `/`, which has no cacheLife) keep
+ * the headers Next.js generated.
+ */
+export const PAGE_CACHE_PROFILES: Array<{ pattern: string; profile: CacheLifeInput }> = [
+  { pattern: '/ssg-demo', profile: 'max' },
+  { pattern: '/blogs', profile: WORDPRESS_CACHE_LIFE },
+  { pattern: '/blogs/*', profile: WORDPRESS_CACHE_LIFE },
+];
+
+function toHeaderSeconds(value: number | undefined, fallback: number): number {
+  if (value === undefined || Number.isNaN(value)) {
+    return fallback;
+  }
+  return Math.max(0, Math.min(Math.floor(value), MAX_HEADER_SECONDS));
+}
+
+/**
+ * Whether a cacheLife profile with this name exists (built-in or from next.config.mjs).
+ */
+export function isCacheLifeProfile(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PROFILES, name);
+}
+
+/**
+ * Resolve a profile name or inline cacheLife config to concrete values.
+ * Unknown profile names fall back to the 'default' profile.
+ */
+export function resolveCacheLife(input: CacheLifeInput): ResolvedCacheLife {
+  let config: CacheLifeConfig;
+
+  if (typeof input === 'string') {
+    config = PROFILES[input] ?? PROFILES.default;
+    if (!PROFILES[input]) {
+      console.warn(`[CacheControlPolicy] Unknown cacheLife profile '${input}', using 'default'`);
+    }
+  } else {
+    // Inline configs inherit missing values from 'default', like cacheLife() does
+    config = { ...PROFILES.default, ...input };
+  }
+
+  const revalidate = toHeaderSeconds(config.revalidate, MAX_HEADER_SECONDS);
+  const expire = Math.max(revalidate, toHeaderSeconds(config.expire, MAX_HEADER_SECONDS));
+  const stale = toHeaderSeconds(config.stale, 0);
+
+  return { stale, revalidate, expire };
+}
+
+/**
+ * Every known cacheLife profile (built-in and next.config.mjs), resolved.
+ */
+export function getCacheLifeProfiles(): Record<string, ResolvedCacheLife> {
+  return Object.fromEntries(
+    Object.keys(PROFILES).map(name => [name, resolveCacheLife(name)])
+  );
+}
+
+/**
+ * Build Cache-Control and Surrogate-Control headers for a cacheLife profile.
+ */
+export function getCacheControlHeaders(input: CacheLifeInput): Record<string, string> {
+  const { revalidate, expire } = resolveCacheLife(input);
+
+  const directives = [`max-age=${revalidate}`];
+  if (expire > revalidate) {
+    directives.push(`stale-while-revalidate=${expire - revalidate}`);
+  }
+  directives.push(`stale-if-error=${expire}`);
+
+  const [, ...edgeDirectives] = directives;
+
+  return {
+    'Cache-Control': ['public', 'max-age=0', `s-maxage=${revalidate}`, ...edgeDirectives].join(', '),
+    'Surrogate-Control': directives.join(', '),
+  };
+}
+
+function findPageCacheProfile(pathname: string) {
+  return PAGE_CACHE_PROFILES.find(({ pattern }) => {
+    if (pattern.endsWith('/*')) {
+      const prefix = pattern.slice(0, -1);
+      return pathname.startsWith(prefix) && pathname.length > prefix.length;
+    }
+    return pathname === pattern || pathname === `${pattern}/`;
+  });
+}
+
+/**
+ * Find the cacheLife profile for a page path, if the route is listed in
+ * PAGE_CACHE_PROFILES.
+ */
+export function getPageCacheProfile(pathname: string): CacheLifeInput | undefined {
+  return findPageCacheProfile(pathname)?.profile;
+}
+
+/**
+ * The PAGE_CACHE_PROFILES pattern a path belongs to (e.g. `/blogs/*`), or
+ * the path itself. Used as a low-cardinality route label.
+ */
+export function getRoutePattern(pathname: string): string {
+  return findPageCacheProfile(pathname)?.pattern ?? pathname;
+}
+
+/**
+ * Whether headers already set on a response forbid shared caching
+ * (dynamic pages, errors), in which case the policy must not override them.
+ */
+export function isUncacheableResponse(cacheControl: string | undefined): boolean {
+  if (!cacheControl) {
+    return false;
+  }
+  return /\b(private|no-store|no-cache)\b/i.test(cacheControl);
+}
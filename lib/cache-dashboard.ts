@@ -0,0 +1,285 @@
+/**
+ * Cache Dashboard Stream
+ *
+ * Server-sent events for /cache-dashboard (served at /api/cache-events):
+ *
+ *   event: snapshot      entries, hit ratios per route, recent requests and
+ *                        revalidations (first event after connecting)
+ *   event: entry         { change: 'added' | 'removed' | 'state', entry | key }
+ *   event: request       a response and its Surrogate-Key (lib/cache-events.ts)
+ *   event: revalidation  an invalidation, as audit logged
+ *   event: hit-ratios    hit ratios per route, when they change
+ *
+ * Requests and revalidations are pushed as they happen. Entries are read
+ * from storage (lib/cache-inspector.ts) once, when the first dashboard
+ * connects, and then follow the writes and deletes the cache handlers
+ * report (cache-entry-events.mjs): only the changed entry is read again.
+ * The initial load reads the CACHE_DASHBOARD_MAX_ENTRIES (default 500) most
+ * recently written entries; the snapshot reports `partial` and how many
+ * were stored when more were.
+ * One poller shared by every open stream re-evaluates entry state (fresh,
+ * stale, expired) and hit ratios every CACHE_DASHBOARD_POLL_MS (default
+ * 3000) without touching storage. The tracker stops when the last stream
+ * closes.
+ *
+ * Streams end when the client disconnects or the server starts draining.
+ */
+
+import { subscribeEntryChanges } from '../cache-entry-events.mjs';
+import { getRecentCacheEvents, subscribeCacheEvents } from './cache-events';
+import {
+  getCacheStore,
+  parseEntry,
+  parseKey,
+  summarize,
+  type CacheEntrySummary,
+  type ParsedEntry,
+  type StoredObject,
+} from './cache-inspector';
+import { getHitRatiosByRoute } from './cache-metrics';
+import { isDraining } from './server-lifecycle';
+
+const POLL_MS = Math.max(500, parseInt(process.env.CACHE_DASHBOARD_POLL_MS || '', 10) || 3000);
+
+// Entries read when the tracker starts, most recently written first, and
+// reads at once while loading
+const MAX_LOADED_ENTRIES = Math.max(1, parseInt(process.env.CACHE_DASHBOARD_MAX_ENTRIES || '', 10) || 500);
+const READ_CONCURRENCY = 10;
+
+type EntryChange =
+  | { change: 'added'; entry: CacheEntrySummary }
+  | { change: 'state'; entry: CacheEntrySummary; previous_state: CacheEntrySummary['state'] }
+  | { change: 'removed'; key: string };
+
+type StreamListener = (event: string, data: unknown) => void;
+
+interface TrackedEntry {
+  object: StoredObject;
+  entry: ParsedEntry;
+  summary: CacheEntrySummary;
+}
+
+interface EntryTrackerState {
+  /** Open streams, including those still waiting for their snapshot */
+  streams: number;
+  listeners: Set<StreamListener>;
+  entries: Map<string, TrackedEntry>;
+  /** Entries in storage at the initial load (more than loaded when partial) */
+  stored: number;
+  /** Initial load, then every entry change, in order */
+  queue: Promise<void>;
+  timer: ReturnType<typeof setInterval> | null;
+  hitRatios: string;
+  unsubscribe: () => void;
+}
+
+const ENTRY_TRACKER_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-dashboard');
+
+function getState(): EntryTrackerState {
+  const registry = globalThis as typeof globalThis & {
+    [ENTRY_TRACKER_SYMBOL]?: EntryTrackerState;
+  };
+
+  registry[ENTRY_TRACKER_SYMBOL] ??= {
+    streams: 0,
+    listeners: new Set(),
+    entries: new Map(),
+    stored: 0,
+    queue: Promise.resolve(),
+    timer: null,
+    hitRatios: '',
+    unsubscribe: () => {},
+  };
+
+  return registry[ENTRY_TRACKER_SYMBOL];
+}
+
+function broadcast(event: string, data: unknown): void {
+  for (const listener of getState().listeners) {
+    listener(event, data);
+  }
+}
+
+async function readEntry(object: StoredObject): Promise<TrackedEntry | null> {
+  const data = await getCacheStore().read(object);
+  // Removed since the listing, or unreadable
+  const entry = data && parseEntry(object, data);
+  return entry ? { object, entry, summary: summarize(object, entry, Date.now()) } : null;
+}
+
+async function loadEntries(entries: Map<string, TrackedEntry>): Promise<void> {
+  const listed = await getCacheStore().list();
+  const objects = listed.sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_LOADED_ENTRIES);
+  // Not for a stopped tracker's map
+  if (entries === getState().entries) {
+    getState().stored = listed.length;
+  }
+
+  for (let i = 0; i < objects.length; i += READ_CONCURRENCY) {
+    const tracked = await Promise.all(objects.slice(i, i + READ_CONCURRENCY).map(readEntry));
+    for (const item of tracked) {
+      if (item) entries.set(item.object.key, item);
+    }
+  }
+}
+
+/**
+ * Apply a write or delete reported by a cache handler. Writes are read back,
+ * so an entry the handler failed to store is reported as removed.
+ */
+async function applyEntryChange(change: 'set' | 'delete', key: string): Promise<void> {
+  const { entries } = getState();
+  const parsed = parseKey(key);
+  if (!parsed) return;
+
+  let tracked: TrackedEntry | null = null;
+  if (change === 'set') {
+    const object = await getCacheStore().find(parsed.type, parsed.name);
+    tracked = object && await readEntry(object);
+  }
+
+  if (tracked) {
+    entries.set(key, tracked);
+    broadcast('entry', { change: 'added', entry: tracked.summary } satisfies EntryChange);
+  } else if (entries.delete(key)) {
+    broadcast('entry', { change: 'removed', key } satisfies EntryChange);
+  }
+}
+
+/**
+ * Re-evaluate entry state and hit ratios, for every open stream at once.
+ */
+function tick(): void {
+  const state = getState();
+
+  if (isDraining()) {
+    broadcast('close', null);
+    return;
+  }
+
+  const now = Date.now();
+  for (const tracked of state.entries.values()) {
+    const summary = summarize(tracked.object, tracked.entry, now);
+    if (summary.state !== tracked.summary.state) {
+      broadcast('entry', { change: 'state', entry: summary, previous_state: tracked.summary.state } satisfies EntryChange);
+    }
+    tracked.summary = summary;
+  }
+
+  const ratios = getHitRatiosByRoute();
+  if (JSON.stringify(ratios) !== state.hitRatios) {
+    state.hitRatios = JSON.stringify(ratios);
+    broadcast('hit-ratios', ratios);
+  }
+
+  // Keeps idle connections open through proxies
+  broadcast('ping', null);
+}
+
+function startTracker(): void {
+  const state = getState();
+
+  // A new map, so a load still running from a stopped tracker can't fill it
+  state.entries = new Map();
+  state.stored = 0;
+  state.hitRatios = JSON.stringify(getHitRatiosByRoute());
+  state.queue = loadEntries(state.entries).catch(error => {
+    console.error('[CacheDashboard] Failed to load cache entries:', error);
+  });
+  state.unsubscribe = subscribeEntryChanges(({ change, key }: { change: 'set' | 'delete'; key: string }) => {
+    state.queue = state.queue.then(() => applyEntryChange(change, key)).catch(error => {
+      console.error(`[CacheDashboard] Failed to update ${key}:`, error);
+    });
+  });
+  state.timer = setInterval(tick, POLL_MS);
+}
+
+function stopTracker(): void {
+  const state = getState();
+
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+  state.unsubscribe();
+  state.unsubscribe = () => {};
+  state.entries = new Map();
+}
+
+/**
+ * Open a dashboard event stream. Closes when `signal` aborts.
+ */
+export function createCacheEventStream(signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const state = getState();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let opened = false;
+      let unsubscribe = () => {};
+
+      const send: StreamListener = (event, data) => {
+        if (closed) return;
+        if (event === 'close') {
+          cleanup();
+        } else if (event === 'ping') {
+          controller.enqueue(encoder.encode(': ping\n\n'));
+        } else {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      };
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        signal.removeEventListener('abort', cleanup);
+        state.listeners.delete(send);
+        if (opened && --state.streams === 0) {
+          stopTracker();
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      signal.addEventListener('abort', cleanup);
+      if (signal.aborted || isDraining()) {
+        cleanup();
+        return;
+      }
+
+      opened = true;
+      if (state.streams++ === 0) {
+        startTracker();
+      }
+
+      // Entry changes queued before this point are in the snapshot; later
+      // ones are sent once it is out
+      await state.queue;
+      if (closed) return;
+
+      const recent = getRecentCacheEvents();
+      send('snapshot', {
+        poll_ms: POLL_MS,
+        entries: [...state.entries.values()].map(tracked => tracked.summary),
+        // Only the most recently written entries were loaded
+        partial: state.stored > MAX_LOADED_ENTRIES,
+        stored_entries: state.stored,
+        hit_ratios: getHitRatiosByRoute(),
+        requests: recent.request,
+        revalidations: recent.revalidation,
+      });
+
+      state.listeners.add(send);
+      unsubscribe = subscribeCacheEvents(event => send(event.type, event));
+    },
+
+    cancel() {
+      cleanup();
+    },
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Cache Diagnostics Headers
+ *
+ * Formats the cache lookups recorded on a request (see lib/request-context.ts)
+ * as response headers, so E2E tests can assert on what the cache handlers
+ * actually did instead of inferring HIT/MISS from response timings:
+ *
+ * - Server-Timing:          one entry per lookup, e.g.
+ *                           `use-cache;desc="hit file 6f1c...";dur=1.4`
+ * - X-Nextjs-Cache-Detail:  JSON summary plus the individual lookups
+ */
+
+import type { CacheLookup } from './request-context';
+
+// Keep diagnostics headers well below typical proxy header limits
+const MAX_REPORTED_LOOKUPS = 20;
+const MAX_KEY_LENGTH = 48;
+
+const SERVER_TIMING_METRIC: Record<CacheLookup['layer'], string> = {
+  cacheHandler: 'fetch-cache',
+  cacheHandlers: 'use-cache',
+};
+
+/**
+ * Shorten a cache key and strip anything that is not printable ASCII, since
+ * header values with other characters are rejected by Node.js.
+ */
+function shortenKey(key: string): string {
+  const printable = key.replace(/[^\x20-\x7e]/g, '');
+  return printable.length > MAX_KEY_LENGTH ? `${printable.slice(0, MAX_KEY_LENGTH)}...` : printable;
+}
+
+/**
+ * Format lookups as a Server-Timing header value.
+ */
+export function formatServerTiming(lookups: CacheLookup[]): string {
+  return lookups
+    .slice(0, MAX_REPORTED_LOOKUPS)
+    .map(lookup => {
+      const desc = `${lookup.result} ${lookup.backend} ${shortenKey(lookup.key)}`.replace(/["\\]/g, '');
+      return `${SERVER_TIMING_METRIC[lookup.layer]};desc="${desc}";dur=${lookup.durationMs.toFixed(1)}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Summarize lookups for the X-Nextjs-Cache-Detail header.
+ */
+export function formatCacheDetail(lookups: CacheLookup[]): string {
+  const count = (result: CacheLookup['result']) =>
+    lookups.filter(lookup => lookup.result === result).length;
+
+  return JSON.stringify({
+    hit: count('hit'),
+    miss: count('miss'),
+    stale: count('stale'),
+    lookups: lookups.slice(0, MAX_REPORTED_LOOKUPS).map(lookup => ({
+      layer: lookup.layer,
+      key: shortenKey(lookup.key),
+      result: lookup.result,
+      backend: lookup.backend,
+      ms: Number(lookup.durationMs.toFixed(1)),
+    })),
+    truncated: lookups.length > MAX_REPORTED_LOOKUPS,
+  });
+}
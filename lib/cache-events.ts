@@ -0,0 +1,108 @@
+/**
+ * Cache Events
+ *
+ * In-process feed of what the cache is doing, for the live dashboard
+ * (/api/cache-events, /cache-dashboard):
+ *
+ * - request:      a response and the Surrogate-Key it was sent with
+ *                 (published by server.ts)
+ * - revalidation: an invalidation, as recorded in the audit log
+ *                 (published by recordInvalidation())
+ *
+ * The most recent events of each type are kept so a new subscriber starts
+ * with some history. State lives on globalThis under a Symbol.for() key so
+ * server.ts and the bundled route handlers share one feed.
+ */
+
+import { EventEmitter } from 'events';
+import type { AuditOperation, AuditOutcome } from './revalidation/audit-log';
+
+export interface RequestEvent {
+  type: 'request';
+  at: string;
+  method: string;
+  path: string;
+  route: string;
+  status: number;
+  surrogate_key: string;
+  /** Cache handler lookups made for the request, by result */
+  lookups: { hit: number; stale: number; miss: number };
+}
+
+export interface RevalidationEvent {
+  type: 'revalidation';
+  at: string;
+  id: string;
+  source: string;
+  operation: AuditOperation;
+  outcome: AuditOutcome;
+  /** Tags, keys or paths invalidated */
+  keys: string[];
+  requester?: string;
+  duration_ms: number;
+}
+
+export type CacheEvent = RequestEvent | RevalidationEvent;
+
+interface CacheEventsState {
+  emitter: EventEmitter;
+  recent: { [Type in CacheEvent['type']]: Extract<CacheEvent, { type: Type }>[] };
+}
+
+const CACHE_EVENTS_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-events');
+
+// Events of each type kept for new subscribers
+const RECENT_EVENTS = 100;
+
+function getState(): CacheEventsState {
+  const registry = globalThis as typeof globalThis & {
+    [CACHE_EVENTS_SYMBOL]?: CacheEventsState;
+  };
+
+  if (!registry[CACHE_EVENTS_SYMBOL]) {
+    const emitter = new EventEmitter();
+    // One listener per open dashboard
+    emitter.setMaxListeners(0);
+    registry[CACHE_EVENTS_SYMBOL] = { emitter, recent: { request: [], revalidation: [] } };
+  }
+
+  return registry[CACHE_EVENTS_SYMBOL];
+}
+
+/**
+ * Publish an event to every subscriber. Never throws.
+ */
+export function publishCacheEvent(event: CacheEvent): void {
+  const { emitter, recent } = getState();
+  const buffer = recent[event.type] as CacheEvent[];
+
+  buffer.push(event);
+  if (buffer.length > RECENT_EVENTS) {
+    buffer.shift();
+  }
+
+  try {
+    emitter.emit('event', event);
+  } catch (error) {
+    console.error(`[CacheEvents] Subscriber failed on ${event.type} event:`, error);
+  }
+}
+
+/**
+ * Receive every published event until the returned function is called.
+ */
+export function subscribeCacheEvents(listener: (event: CacheEvent) => void): () => void {
+  const { emitter } = getState();
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+/**
+ * Recent events of each type, oldest first.
+ */
+export function getRecentCacheEvents(): CacheEventsState['recent'] {
+  const { recent } = getState();
+  return { request: [...recent.request], revalidation: [...recent.revalidation] };
+}
@@ -0,0 +1,912 @@
+/**
+ * Cache Inspector
+ *
+ * Entry-level view of the origin cache for /api/cache-stats, read straight
+ * from the handler's storage (`.next/cache/*` or the CACHE_BUCKET bucket):
+ *
+ * - cacheHandler (singular): `fetch-cache/` and `route-cache/`
+ * - cacheHandlers (plural): `use-cache/`
+ *
+ * Entries are ordered by storage path (type, then file name) and paged with
+ * an opaque cursor. A page lists at most MAX_SCANNED_PER_PAGE objects, one
+ * type after the other, starting after the cursor: the bucket listing is
+ * paged from there (startOffset) and a key prefix narrows it, so a page never
+ * lists the whole cache. Listed objects are filtered on layer, type, key
+ * prefix and age before any entry is read; only the entries needed to fill
+ * the page (and, with a tag filter, to test their tags) are downloaded,
+ * READ_CONCURRENCY at a time. A rare tag or a narrow age window therefore
+ * returns a short page with a cursor rather than scanning the whole cache.
+ *
+ * Keys are `<type>:<storage name>` (e.g. `fetch:5f1c...`,
+ * `use-cache:__development___800c...`). They identify the stored object
+ * exactly, unlike getSharedCacheStats() keys which rewrite `_` to `-`.
+ *
+ * deleteCacheEntries() removes a selection from both layers. Like
+ * clearSharedCache(), it keeps fully static routes (no revalidate in the
+ * prerender manifest), which are only produced at build time. Legacy entries
+ * are selected by tag through the handler's tag mapping (tag -> cache keys),
+ * the one revalidateTag() uses, and their keys are dropped from it once they
+ * are removed. 'use cache' keeps no such index (`_tags.json` holds tag
+ * invalidation times), so its entries are read to test their tags. The
+ * mapping is read and updated through the registered legacy handler when
+ * there is one, so its buffered tag writes are neither lost nor overwritten.
+ *
+ * The storage layer (getCacheStore()) and entry parsing are shared with
+ * lib/cache-snapshot.ts, which exports and imports whole entries.
+ */
+
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import { Storage, type Bucket, type File } from '@google-cloud/storage';
+import { publishEntryChange, toStorageName } from '../cache-entry-events.mjs';
+import { getCacheHandler } from '../cache-handler-registry.mjs';
+import type { CacheLayer } from './revalidation/impact';
+
+export type CacheEntryType = 'fetch' | 'route' | 'use-cache';
+
+export const CACHE_ENTRY_TYPES: CacheEntryType[] = ['fetch', 'route', 'use-cache'];
+
+export const CACHE_LAYERS: CacheLayer[] = ['cacheHandler', 'cacheHandlers'];
+
+export interface CacheEntryFilter {
+  layer?: CacheLayer;
+  type?: CacheEntryType;
+  tag?: string;
+  /** Key prefix, e.g. `fetch:` or `use-cache:__development` */
+  prefix?: string;
+}
+
+export interface CacheEntryQuery extends CacheEntryFilter {
+  min_age_seconds?: number;
+  max_age_seconds?: number;
+  cursor?: string;
+  limit: number;
+}
+
+/** Seconds left until the entry goes stale, needs revalidation or expires (null: never, or not stored) */
+export interface RemainingTimes {
+  stale_seconds: number | null;
+  revalidate_seconds: number | null;
+  expire_seconds: number | null;
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  layer: CacheLayer;
+  type: CacheEntryType;
+  size_bytes: number;
+  tags: string[];
+  last_modified: string | null;
+  age_seconds: number | null;
+  remaining: RemainingTimes;
+  /** fresh, stale (revalidate window passed) or expired; unknown when the entry carries no timing */
+  state: 'fresh' | 'stale' | 'expired' | 'unknown';
+}
+
+export interface PayloadPreview {
+  /** Next.js value kind (FETCH, APP_PAGE, APP_ROUTE) or `rsc` for 'use cache' streams */
+  kind: string;
+  bytes: number;
+  preview: string;
+  truncated: boolean;
+}
+
+export interface CacheEntryDetail extends CacheEntrySummary {
+  storage: { backend: 'file' | 'gcs'; location: string };
+  /** Lifetimes stored with the entry, in seconds */
+  cache_life: { stale: number | null; revalidate: number | null; expire: number | null };
+  /** Response metadata stored with the entry (status, headers, url) */
+  metadata: Record<string, unknown>;
+  payload: PayloadPreview | null;
+}
+
+export interface CacheDeleteSelector extends CacheEntryFilter {
+  /** A single entry */
+  key?: string;
+}
+
+export interface LayerDeleteResult {
+  removed: number;
+  keys: string[];
+  /** Static routes matched but kept */
+  preserved: string[];
+  failed: Array<{ key: string; error: string }>;
+}
+
+export interface CacheDeleteResult {
+  dry_run: boolean;
+  backend: 'file' | 'gcs';
+  removed: number;
+  layers: Record<CacheLayer, LayerDeleteResult>;
+}
+
+export interface CacheEntryPage {
+  backend: 'file' | 'gcs';
+  entries: CacheEntrySummary[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  next_cursor: string | null;
+  /** Objects read for this page (with a tag filter, more than were returned) */
+  scanned: number;
+}
+
+export interface ListPageOptions {
+  /** Storage name to continue after */
+  after?: string;
+  /** Storage name prefix */
+  prefix?: string;
+  limit: number;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface StoredObject {
+  key: string;
+  layer: CacheLayer;
+  type: CacheEntryType;
+  location: string;
+  size: number;
+  updatedAt: number;
+}
+
+export interface CacheStore {
+  backend: 'file' | 'gcs';
+  list(): Promise<StoredObject[]>;
+  /** Objects of one type in storage order (by file name), at most `limit` */
+  listPage(type: CacheEntryType, options: ListPageOptions): Promise<StoredObject[]>;
+  find(type: CacheEntryType, name: string): Promise<StoredObject | null>;
+  read(object: StoredObject): Promise<Buffer | null>;
+  remove(object: StoredObject): Promise<void>;
+  write(type: CacheEntryType, name: string, data: Buffer): Promise<void>;
+  /**
+   * The legacy handler's tag mapping (tag -> cache keys), as stored. Update
+   * it with addTagMappings() and deleteCacheEntries(), which go through the
+   * registered handler when there is one.
+   */
+  readTagMapping(): Promise<Record<string, string[]>>;
+  writeTagMapping(mapping: Record<string, string[]>): Promise<void>;
+}
+
+const STORAGE_PREFIXES: Record<CacheEntryType, string> = {
+  fetch: 'fetch-cache',
+  route: 'route-cache',
+  'use-cache': 'use-cache',
+};
+
+const PREVIEW_BYTES = 2048;
+
+// Objects listed per page, and reads in flight
+const MAX_SCANNED_PER_PAGE = 1000;
+const READ_CONCURRENCY = 10;
+
+function getLayer(type: CacheEntryType): CacheLayer {
+  return type === 'use-cache' ? 'cacheHandlers' : 'cacheHandler';
+}
+
+function isEntryFile(name: string): boolean {
+  // _tags.json is the 'use cache' tag index, not an entry
+  return name.endsWith('.json') && name !== '_tags.json';
+}
+
+function createFileStore(): CacheStore {
+  const baseDir = path.join(process.cwd(), '.next', 'cache');
+  const tagMappingLocation = path.join(baseDir, 'tags', 'tags.json');
+
+  const find = async (type: CacheEntryType, name: string): Promise<StoredObject | null> => {
+    const location = path.join(baseDir, STORAGE_PREFIXES[type], `${name}.json`);
+    const stat = await fs.stat(location).catch(() => null);
+    if (!stat) return null;
+
+    return {
+      key: `${type}:${name}`,
+      layer: getLayer(type),
+      type,
+      location,
+      size: stat.size,
+      updatedAt: stat.mtimeMs,
+    };
+  };
+
+  return {
+    backend: 'file',
+
+    async list() {
+      const objects: StoredObject[] = [];
+
+      for (const type of CACHE_ENTRY_TYPES) {
+        const dir = path.join(baseDir, STORAGE_PREFIXES[type]);
+        const names = await fs.readdir(dir).catch(() => [] as string[]);
+
+        for (const name of names.filter(isEntryFile)) {
+          const object = await find(type, name.slice(0, -'.json'.length));
+          if (object) objects.push(object);
+        }
+      }
+
+      return objects;
+    },
+
+    async listPage(type, { after, prefix = '', limit }) {
+      const dir = path.join(baseDir, STORAGE_PREFIXES[type]);
+      const names = (await fs.readdir(dir).catch(() => [] as string[]))
+        .filter(name => isEntryFile(name) && name.startsWith(prefix))
+        .filter(name => after === undefined || name > `${after}.json`)
+        .sort()
+        .slice(0, limit);
+
+      const objects = await Promise.all(names.map(name => find(type, name.slice(0, -'.json'.length))));
+      // Removed since the directory was read
+      return objects.filter((object): object is StoredObject => object !== null);
+    },
+
+    find,
+
+    async read(object) {
+      return fs.readFile(object.location).catch(() => null);
+    },
+
+    async remove(object) {
+      await fs.unlink(object.location);
+    },
+
+    async write(type, name, data) {
+      const dir = path.join(baseDir, STORAGE_PREFIXES[type]);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, `${name}.json`), data);
+    },
+
+    async readTagMapping() {
+      return fs.readFile(tagMappingLocation, 'utf8').then(JSON.parse).catch(() => ({}));
+    },
+
+    async writeTagMapping(mapping) {
+      await fs.mkdir(path.dirname(tagMappingLocation), { recursive: true });
+      await fs.writeFile(tagMappingLocation, JSON.stringify(mapping, null, 2));
+    },
+
+  };
+}
+
+let bucket: Bucket | null = null;
+
+const TAG_MAPPING_OBJECT = 'cache/tags/tags.json';
+
+function createGcsStore(bucketName: string): CacheStore {
+  if (!bucket) {
+    bucket = new Storage().bucket(bucketName);
+  }
+  const cacheBucket = bucket;
+
+  const toObject = (type: CacheEntryType, file: File): StoredObject => ({
+    key: `${type}:${file.name.slice(STORAGE_PREFIXES[type].length + 1, -'.json'.length)}`,
+    layer: getLayer(type),
+    type,
+    location: file.name,
+    size: Number(file.metadata.size) || 0,
+    updatedAt: file.metadata.updated ? Date.parse(file.metadata.updated) : 0,
+  });
+
+  return {
+    backend: 'gcs',
+
+    async list() {
+      const listings = await Promise.all(CACHE_ENTRY_TYPES.map(async type => {
+        const prefix = `${STORAGE_PREFIXES[type]}/`;
+        const [files] = await cacheBucket.getFiles({ prefix });
+
+        return files
+          .filter(file => isEntryFile(file.name.slice(prefix.length)))
+          .map(file => toObject(type, file));
+      }));
+
+      return listings.flat();
+    },
+
+    async listPage(type, { after, prefix = '', limit }) {
+      const typePrefix = `${STORAGE_PREFIXES[type]}/`;
+      // Inclusive, so the object the cursor points at is skipped below
+      const startOffset = after === undefined ? undefined : `${typePrefix}${after}.json`;
+      const objects: StoredObject[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const [files, nextQuery] = await cacheBucket.getFiles({
+          prefix: `${typePrefix}${prefix}`,
+          startOffset,
+          autoPaginate: false,
+          maxResults: limit + 1,
+          pageToken,
+        });
+        for (const file of files) {
+          if (file.name !== startOffset && isEntryFile(file.name.slice(typePrefix.length))) {
+            objects.push(toObject(type, file));
+          }
+        }
+        pageToken = nextQuery?.pageToken;
+      } while (pageToken && objects.length < limit);
+
+      return objects.slice(0, limit);
+    },
+
+    async find(type, name) {
+      const file = cacheBucket.file(`${STORAGE_PREFIXES[type]}/${name}.json`);
+      try {
+        await file.getMetadata();
+        return toObject(type, file);
+      } catch {
+        return null;
+      }
+    },
+
+    async read(object) {
+      try {
+        const [data] = await cacheBucket.file(object.location).download();
+        return data;
+      } catch {
+        return null;
+      }
+    },
+
+    async remove(object) {
+      await cacheBucket.file(object.location).delete();
+    },
+
+    async write(type, name, data) {
+      await cacheBucket.file(`${STORAGE_PREFIXES[type]}/${name}.json`).save(data, {
+        metadata: { contentType: 'application/json' },
+      });
+    },
+
+    async readTagMapping() {
+      try {
+        const [data] = await cacheBucket.file(TAG_MAPPING_OBJECT).download();
+        return JSON.parse(data.toString('utf8'));
+      } catch {
+        // No mapping yet
+        return {};
+      }
+    },
+
+    async writeTagMapping(mapping) {
+      await cacheBucket.file(TAG_MAPPING_OBJECT).save(JSON.stringify(mapping, null, 2), {
+        metadata: { contentType: 'application/json' },
+      });
+    },
+
+  };
+}
+
+export function getCacheStore(): CacheStore {
+  // Same rule as createCacheHandler({ type: 'auto' })
+  const bucketName = process.env.CACHE_BUCKET;
+  return bucketName ? createGcsStore(bucketName) : createFileStore();
+}
+
+// ============================================================================
+// Entry parsing
+// ============================================================================
+
+interface SerializedBuffer {
+  type: 'Buffer';
+  data: string;
+}
+
+interface LegacyStoredEntry {
+  value?: {
+    kind?: string;
+    revalidate?: number | false;
+    data?: { body?: string; headers?: Record<string, unknown>; status?: number; url?: string };
+    html?: string;
+    body?: SerializedBuffer | string;
+    status?: number;
+    headers?: Record<string, unknown>;
+  } | null;
+  lastModified?: number;
+  tags?: string[];
+}
+
+interface UseCacheStoredEntry {
+  value?: string;
+  tags?: string[];
+  timestamp?: number;
+  // Infinity is stored as null
+  stale?: number | null;
+  revalidate?: number | null;
+  expire?: number | null;
+}
+
+export interface ParsedEntry {
+  tags: string[];
+  lastModified: number | null;
+  cacheLife: CacheEntryDetail['cache_life'];
+  /** Whether null lifetimes mean "never" rather than "not stored" */
+  timed: boolean;
+  metadata: Record<string, unknown>;
+  payload: { kind: string; content: Buffer } | null;
+}
+
+function finiteOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function parseUseCacheEntry(stored: UseCacheStoredEntry): ParsedEntry {
+  return {
+    tags: stored.tags || [],
+    lastModified: finiteOrNull(stored.timestamp),
+    cacheLife: {
+      stale: finiteOrNull(stored.stale),
+      revalidate: finiteOrNull(stored.revalidate),
+      expire: finiteOrNull(stored.expire),
+    },
+    timed: true,
+    metadata: {},
+    payload: typeof stored.value === 'string'
+      ? { kind: 'rsc', content: Buffer.from(stored.value, 'base64') }
+      : null,
+  };
+}
+
+function parseLegacyEntry(stored: LegacyStoredEntry): ParsedEntry {
+  const value = stored.value || {};
+  let metadata: Record<string, unknown> = {};
+  let content: Buffer | null = null;
+
+  if (value.kind === 'FETCH') {
+    const { body, ...rest } = value.data || {};
+    metadata = rest;
+    content = typeof body === 'string' ? Buffer.from(body, 'base64') : null;
+  } else {
+    metadata = { status: value.status, headers: value.headers };
+    if (typeof value.html === 'string') {
+      content = Buffer.from(value.html);
+    } else if (typeof value.body === 'string') {
+      content = Buffer.from(value.body);
+    } else if (value.body?.type === 'Buffer') {
+      content = Buffer.from(value.body.data, 'base64');
+    }
+  }
+
+  return {
+    tags: stored.tags || [],
+    lastModified: finiteOrNull(stored.lastModified),
+    // Only fetch entries carry their revalidate time; page lifetimes live
+    // in the prerender manifest
+    cacheLife: { stale: null, revalidate: finiteOrNull(value.revalidate), expire: null },
+    timed: value.kind === 'FETCH',
+    metadata,
+    payload: content ? { kind: value.kind || 'unknown', content } : null,
+  };
+}
+
+export function parseEntry(object: StoredObject, data: Buffer): ParsedEntry | null {
+  try {
+    const stored = JSON.parse(data.toString('utf8'));
+    return object.type === 'use-cache' ? parseUseCacheEntry(stored) : parseLegacyEntry(stored);
+  } catch (error) {
+    console.warn(`[CacheInspector] Unreadable entry ${object.key}:`, error);
+    return null;
+  }
+}
+
+function remainingSeconds(start: number | null, lifetime: number | null, now: number): number | null {
+  if (start === null || lifetime === null) return null;
+  return Math.max(0, Math.round((start + lifetime * 1000 - now) / 1000));
+}
+
+export function summarize(object: StoredObject, entry: ParsedEntry, now: number): CacheEntrySummary {
+  const { lastModified, cacheLife } = entry;
+  const remaining: RemainingTimes = {
+    stale_seconds: remainingSeconds(lastModified, cacheLife.stale, now),
+    revalidate_seconds: remainingSeconds(lastModified, cacheLife.revalidate, now),
+    expire_seconds: remainingSeconds(lastModified, cacheLife.expire, now),
+  };
+
+  let state: CacheEntrySummary['state'] = 'unknown';
+  if (remaining.expire_seconds === 0) {
+    state = 'expired';
+  } else if (remaining.revalidate_seconds === 0) {
+    state = 'stale';
+  } else if (entry.timed) {
+    state = 'fresh';
+  }
+
+  return {
+    key: object.key,
+    layer: object.layer,
+    type: object.type,
+    size_bytes: object.size,
+    tags: entry.tags,
+    last_modified: lastModified !== null ? new Date(lastModified).toISOString() : null,
+    age_seconds: lastModified !== null ? Math.max(0, Math.round((now - lastModified) / 1000)) : null,
+    remaining,
+    state,
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+function encodeCursor(key: string): string {
+  return Buffer.from(key).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous page. Throws on a malformed cursor.
+ */
+export function decodeCursor(cursor: string): string {
+  const key = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!parseKey(key)) {
+    throw new Error('Invalid cursor');
+  }
+  return key;
+}
+
+export function parseKey(key: string): { type: CacheEntryType; name: string } | null {
+  const match = /^(fetch|route|use-cache):([a-zA-Z0-9_-]+)$/.exec(key);
+  return match ? { type: match[1] as CacheEntryType, name: match[2] } : null;
+}
+
+export function matchesFilter(object: StoredObject, filter: CacheEntryFilter): boolean {
+  if (filter.layer && object.layer !== filter.layer) return false;
+  if (filter.type && object.type !== filter.type) return false;
+  if (filter.prefix && !object.key.startsWith(filter.prefix)) return false;
+  return true;
+}
+
+function matchesListing(object: StoredObject, query: CacheEntryQuery, now: number): boolean {
+  if (!matchesFilter(object, query)) return false;
+
+  // Age by write time; the stored lastModified is only known after a read
+  const ageSeconds = (now - object.updatedAt) / 1000;
+  if (query.min_age_seconds !== undefined && ageSeconds < query.min_age_seconds) return false;
+  if (query.max_age_seconds !== undefined && ageSeconds > query.max_age_seconds) return false;
+
+  return true;
+}
+
+/**
+ * Storage name prefix to list for a type, given a key prefix filter, or null
+ * when the filter excludes the type.
+ */
+function getListingPrefix(type: CacheEntryType, keyPrefix = ''): string | null {
+  const typePrefix = `${type}:`;
+  if (keyPrefix.startsWith(typePrefix)) return keyPrefix.slice(typePrefix.length);
+  return typePrefix.startsWith(keyPrefix) ? '' : null;
+}
+
+/**
+ * List cache entries matching the query, one page at a time.
+ */
+export async function listCacheEntries(query: CacheEntryQuery): Promise<CacheEntryPage> {
+  const store = getCacheStore();
+  const now = Date.now();
+  const after = query.cursor ? parseKey(decodeCursor(query.cursor)) : null;
+
+  // Types are listed in key order, from the cursor's type on
+  const listed: StoredObject[] = [];
+  for (const type of CACHE_ENTRY_TYPES) {
+    const prefix = getListingPrefix(type, query.prefix);
+    if (prefix === null) continue;
+    if (query.type && query.type !== type) continue;
+    if (query.layer && query.layer !== getLayer(type)) continue;
+    if (after && CACHE_ENTRY_TYPES.indexOf(type) < CACHE_ENTRY_TYPES.indexOf(after.type)) continue;
+
+    const limit = MAX_SCANNED_PER_PAGE - listed.length;
+    if (limit === 0) break;
+    listed.push(...await store.listPage(type, { after: after?.type === type ? after.name : undefined, prefix, limit }));
+  }
+
+  const candidates = listed.filter(object => matchesListing(object, query, now));
+  const entries: CacheEntrySummary[] = [];
+  let lastKey: string | null = null;
+  let scanned = 0;
+
+  // The page ends when it is full or the listing budget is spent
+  while (scanned < candidates.length && entries.length < query.limit) {
+    const batch = candidates.slice(scanned, scanned + READ_CONCURRENCY);
+    const reads = await Promise.all(batch.map(object => store.read(object)));
+
+    for (const [index, object] of batch.entries()) {
+      if (entries.length === query.limit) break;
+
+      scanned++;
+      lastKey = object.key;
+      // Removed since the listing, or unreadable
+      const data = reads[index];
+      const entry = data && parseEntry(object, data);
+      if (!entry) continue;
+      if (query.tag && !entry.tags.includes(query.tag)) continue;
+
+      entries.push(summarize(object, entry, now));
+    }
+  }
+
+  // A full page continues after the last object read; otherwise, when the
+  // listing stopped at the budget, after the last object listed
+  let nextKey: string | null = null;
+  if (scanned < candidates.length) {
+    nextKey = lastKey;
+  } else if (listed.length === MAX_SCANNED_PER_PAGE) {
+    nextKey = listed[listed.length - 1].key;
+  }
+
+  return {
+    backend: store.backend,
+    entries,
+    next_cursor: nextKey !== null ? encodeCursor(nextKey) : null,
+    scanned,
+  };
+}
+
+/**
+ * Full metadata and a payload preview for one entry, or null if it does
+ * not exist.
+ */
+export async function getCacheEntry(key: string): Promise<CacheEntryDetail | null> {
+  const parsed = parseKey(key);
+  if (!parsed) {
+    return null;
+  }
+
+  const store = getCacheStore();
+  const object = await store.find(parsed.type, parsed.name);
+  if (!object) {
+    return null;
+  }
+
+  const data = await store.read(object);
+  const entry = data && parseEntry(object, data);
+  if (!entry) {
+    return null;
+  }
+
+  const content = entry.payload?.content;
+
+  return {
+    ...summarize(object, entry, Date.now()),
+    storage: {
+      backend: store.backend,
+      location: store.backend === 'file' ? path.relative(process.cwd(), object.location) : object.location,
+    },
+    cache_life: entry.cacheLife,
+    metadata: entry.metadata,
+    payload: entry.payload && content
+      ? {
+          kind: entry.payload.kind,
+          bytes: content.length,
+          preview: content.subarray(0, PREVIEW_BYTES).toString('utf8'),
+          truncated: content.length > PREVIEW_BYTES,
+        }
+      : null,
+  };
+}
+
+// ============================================================================
+// Tag mapping
+// ============================================================================
+
+/** The legacy handler's tag mapping API; writes are buffered by the handler */
+interface TagMappingHandler {
+  readTagsMapping(): Promise<Record<string, string[]>>;
+  updateTagsMapping(cacheKey: string, tags: string[]): Promise<void>;
+  updateTagsMappingBulkDelete(cacheKeys: string[], tagsMapping: Record<string, string[]>): Promise<void>;
+}
+
+function getTagMappingHandler(): TagMappingHandler | undefined {
+  return getCacheHandler('cacheHandler');
+}
+
+/**
+ * The legacy tag mapping, pending buffered writes included. Without a
+ * handler in this process, there are none.
+ */
+function readTagMapping(store: CacheStore): Promise<Record<string, string[]>> {
+  const handler = getTagMappingHandler();
+  return handler ? handler.readTagsMapping() : store.readTagMapping();
+}
+
+/**
+ * Add keys to the legacy tag mapping (tag -> cache keys), which
+ * revalidateTag() uses to find cacheHandler entries. The registered handler
+ * queues them with its own tag writes and flushes them before any
+ * revalidateTag() reads the mapping; without one, the stored mapping is
+ * updated directly.
+ */
+export async function addTagMappings(store: CacheStore, additions: Record<string, string[]>): Promise<void> {
+  const handler = getTagMappingHandler();
+
+  if (handler) {
+    const tagsByKey = new Map<string, string[]>();
+    for (const [tag, keys] of Object.entries(additions)) {
+      for (const cacheKey of keys) {
+        tagsByKey.set(cacheKey, [...(tagsByKey.get(cacheKey) || []), tag]);
+      }
+    }
+    for (const [cacheKey, tags] of tagsByKey) {
+      await handler.updateTagsMapping(cacheKey, tags);
+    }
+    return;
+  }
+
+  const mapping = await store.readTagMapping();
+  for (const [tag, keys] of Object.entries(additions)) {
+    mapping[tag] = [...new Set([...(mapping[tag] || []), ...keys])];
+  }
+  await store.writeTagMapping(mapping);
+}
+
+/**
+ * Drop the keys of removed legacy entries from the tag mapping.
+ */
+async function pruneTagMapping(store: CacheStore, removed: StoredObject[]): Promise<void> {
+  const removedKeys = new Set(removed.filter(object => object.layer === 'cacheHandler').map(object => object.key));
+  if (removedKeys.size === 0) return;
+
+  const mapping = await readTagMapping(store);
+  // Mapped keys are cache keys; entries are stored under their sanitized form
+  const cacheKeys = new Set(Object.values(mapping).flat().filter(cacheKey =>
+    removedKeys.has(`fetch:${toStorageName(cacheKey)}`) || removedKeys.has(`route:${toStorageName(cacheKey)}`)
+  ));
+  if (cacheKeys.size === 0) return;
+
+  const handler = getTagMappingHandler();
+  if (handler) {
+    await handler.updateTagsMappingBulkDelete([...cacheKeys], mapping);
+    return;
+  }
+
+  for (const [tag, keys] of Object.entries(mapping)) {
+    const remaining = keys.filter(cacheKey => !cacheKeys.has(cacheKey));
+    if (remaining.length > 0) {
+      mapping[tag] = remaining;
+    } else {
+      delete mapping[tag];
+    }
+  }
+  await store.writeTagMapping(mapping);
+}
+
+// ============================================================================
+// Deletion
+// ============================================================================
+
+const DELETE_CONCURRENCY = 10;
+
+/**
+ * Route cache keys of fully static routes, the way the cache handler's
+ * clearSharedCache() derives them ("/" -> "_index", "/a/b" -> "_a_b").
+ */
+function getStaticRouteKeys(): Set<string> {
+  const keys = new Set<string>();
+
+  try {
+    const manifestPath = path.join(process.cwd(), '.next', 'prerender-manifest.json');
+    const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+
+    for (const [route, config] of Object.entries<{ initialRevalidateSeconds?: number | false }>(manifest.routes || {})) {
+      if (config.initialRevalidateSeconds === false) {
+        keys.add(`route:${route === '/' ? '_index' : route.replace(/\//g, '_')}`);
+      }
+    }
+  } catch {
+    // No manifest (dev server): nothing is static
+  }
+
+  return keys;
+}
+
+async function selectForDeletion(store: CacheStore, selector: CacheDeleteSelector): Promise<StoredObject[]> {
+  let objects: StoredObject[];
+  // Legacy entries found through the tag mapping, known to carry the tag
+  const mapped = new Set<string>();
+
+  if (selector.key) {
+    const parsed = parseKey(selector.key);
+    const object = parsed && await store.find(parsed.type, parsed.name);
+    objects = object ? [object] : [];
+  } else if (selector.tag) {
+    const names = new Set(((await readTagMapping(store))[selector.tag] || []).map(toStorageName));
+    const found = await Promise.all([...names].flatMap(name => [store.find('fetch', name), store.find('route', name)]));
+
+    objects = found.filter((object): object is StoredObject => object !== null);
+    for (const object of objects) {
+      mapped.add(object.key);
+    }
+    objects.push(...(await store.list()).filter(object => object.type === 'use-cache'));
+  } else {
+    objects = await store.list();
+  }
+
+  objects = objects.filter(object => matchesFilter(object, selector));
+
+  if (!selector.tag) {
+    return objects;
+  }
+
+  const tagged = objects.filter(object => mapped.has(object.key));
+  const unmapped = objects.filter(object => !mapped.has(object.key));
+
+  for (let i = 0; i < unmapped.length; i += READ_CONCURRENCY) {
+    const batch = unmapped.slice(i, i + READ_CONCURRENCY);
+    const reads = await Promise.all(batch.map(object => store.read(object)));
+
+    for (const [index, object] of batch.entries()) {
+      const data = reads[index];
+      const entry = data && parseEntry(object, data);
+      if (entry?.tags.includes(selector.tag)) {
+        tagged.push(object);
+      }
+    }
+  }
+  return tagged;
+}
+
+/**
+ * Delete the entries matching the selector (everything when it is empty)
+ * from both layers, or only report them with `dryRun`.
+ */
+export async function deleteCacheEntries(
+  selector: CacheDeleteSelector,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<CacheDeleteResult> {
+  const store = getCacheStore();
+  const staticRoutes = getStaticRouteKeys();
+  const objects = await selectForDeletion(store, selector);
+
+  const layers = Object.fromEntries(CACHE_LAYERS.map(layer => [
+    layer,
+    { removed: 0, keys: [], preserved: [], failed: [] } as LayerDeleteResult,
+  ])) as Record<CacheLayer, LayerDeleteResult>;
+
+  const targets: StoredObject[] = [];
+  for (const object of objects.sort((a, b) => (a.key < b.key ? -1 : 1))) {
+    if (staticRoutes.has(object.key)) {
+      layers[object.layer].preserved.push(object.key);
+    } else {
+      targets.push(object);
+    }
+  }
+
+  if (dryRun) {
+    for (const object of targets) {
+      layers[object.layer].removed++;
+      layers[object.layer].keys.push(object.key);
+    }
+  } else {
+    const removed: StoredObject[] = [];
+
+    for (let i = 0; i < targets.length; i += DELETE_CONCURRENCY) {
+      const batch = targets.slice(i, i + DELETE_CONCURRENCY);
+      const results = await Promise.allSettled(batch.map(object => store.remove(object)));
+
+      results.forEach((result, index) => {
+        const object = batch[index];
+        const layer = layers[object.layer];
+
+        if (result.status === 'fulfilled') {
+          layer.removed++;
+          layer.keys.push(object.key);
+          removed.push(object);
+          publishEntryChange('delete', object.key);
+        } else {
+          const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          console.error(`[CacheInspector] Failed to delete ${object.key}:`, error);
+          layer.failed.push({ key: object.key, error });
+        }
+      });
+    }
+
+    await pruneTagMapping(store, removed).catch(error => {
+      console.error('[CacheInspector] Failed to prune the tag mapping:', error);
+    });
+  }
+
+  return {
+    dry_run: dryRun,
+    backend: store.backend,
+    removed: layers.cacheHandler.removed + layers.cacheHandlers.removed,
+    layers,
+  };
+}
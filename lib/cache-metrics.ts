@@ -0,0 +1,264 @@
+/**
+ * Cache Metrics
+ *
+ * Prometheus exposition of the counters recorded by the cache handlers
+ * (cache-metrics.mjs) and the CDN purge client (lib/cdn/outbound-proxy.ts),
+ * for /api/metrics:
+ *
+ * - nextjs_cache_operations_total{layer,backend,operation,route,result}
+ *   get (hit/miss/stale), set, revalidateTag, refreshTags, getExpiration,
+ *   updateTags (ok/error)
+ * - nextjs_cache_operation_duration_seconds{layer,backend,operation}
+ *   histogram; backend="gcs" is the GCS round trip
+ * - nextjs_cache_hit_ratio{layer}: (hit + stale) / gets since start
+ * - nextjs_cache_stale_served_total{layer}
+ * - nextjs_cache_set_bytes_total{layer,backend}
+ * - nextjs_cache_revalidations_total{layer}, nextjs_cache_revalidated_tags_total{layer}
+ * - nextjs_cdn_purges_total{operation,outcome}, nextjs_cdn_soft_purges_total{operation},
+ *   nextjs_cdn_purge_retries_total{operation}
+ *
+ * Counters are per process and reset on restart.
+ */
+
+import { DURATION_BUCKETS } from '../cache-metrics.mjs';
+import { getOutboundProxyMetrics, type OperationMetrics, type PurgeOperation } from './cdn/outbound-proxy';
+import type { CacheLayer } from './revalidation/impact';
+
+type Labels = Record<string, string>;
+
+interface CounterSeries {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Observations per bucket (not cumulative), aligned with DURATION_BUCKETS */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export interface CacheMetricsState {
+  since: string;
+  counters: Record<string, Record<string, CounterSeries>>;
+  histograms: Record<string, Record<string, HistogramSeries>>;
+  routes: string[];
+}
+
+const CACHE_METRICS_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-metrics');
+
+const LAYERS: CacheLayer[] = ['cacheHandler', 'cacheHandlers'];
+
+/**
+ * Counters recorded by the cache handlers since the process started.
+ */
+export function getCacheMetrics(): CacheMetricsState {
+  const state = (globalThis as typeof globalThis & {
+    [CACHE_METRICS_SYMBOL]?: CacheMetricsState;
+  })[CACHE_METRICS_SYMBOL];
+
+  return state
+    ? structuredClone(state)
+    : { since: new Date().toISOString(), counters: {}, histograms: {}, routes: [] };
+}
+
+export interface RouteHitRatio {
+  route: string;
+  hit: number;
+  stale: number;
+  miss: number;
+  /** (hit + stale) / gets */
+  ratio: number;
+}
+
+/**
+ * Gets per route (both layers), busiest first.
+ */
+export function getHitRatiosByRoute(): RouteHitRatio[] {
+  const routes = new Map<string, RouteHitRatio>();
+
+  for (const { labels, value } of Object.values(getCacheMetrics().counters.operations ?? {})) {
+    if (labels.operation !== 'get') continue;
+
+    const route = routes.get(labels.route) ?? { route: labels.route, hit: 0, stale: 0, miss: 0, ratio: 0 };
+    if (labels.result === 'hit' || labels.result === 'stale' || labels.result === 'miss') {
+      route[labels.result] += value;
+    }
+    routes.set(labels.route, route);
+  }
+
+  return [...routes.values()]
+    .map(route => {
+      const total = route.hit + route.stale + route.miss;
+      return { ...route, ratio: total > 0 ? (route.hit + route.stale) / total : 0 };
+    })
+    .sort((a, b) => (b.hit + b.stale + b.miss) - (a.hit + a.stale + a.miss));
+}
+
+// ============================================================================
+// Exposition format
+// ============================================================================
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  return String(value);
+}
+
+class MetricsWriter {
+  private lines: string[] = [];
+
+  metric(name: string, help: string, type: 'counter' | 'gauge', samples: Array<[Labels, number]>): void {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) {
+      this.sample(name, labels, value);
+    }
+  }
+
+  histogram(name: string, help: string, series: HistogramSeries[]): void {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+
+    for (const { labels, buckets, sum, count } of series) {
+      let cumulative = 0;
+      DURATION_BUCKETS.forEach((bound, index) => {
+        cumulative += buckets[index] ?? 0;
+        this.sample(`${name}_bucket`, { ...labels, le: String(bound) }, cumulative);
+      });
+      this.sample(`${name}_bucket`, { ...labels, le: '+Inf' }, count);
+      this.sample(`${name}_sum`, labels, sum);
+      this.sample(`${name}_count`, labels, count);
+    }
+  }
+
+  toString(): string {
+    return `${this.lines.join('\n')}\n`;
+  }
+
+  private sample(name: string, labels: Labels, value: number): void {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+function counterSamples(state: CacheMetricsState, name: string): Array<[Labels, number]> {
+  return Object.values(state.counters[name] ?? {}).map(({ labels, value }) => [labels, value]);
+}
+
+/**
+ * Gets per layer and result, summed over backends and routes.
+ */
+function getLookupTotals(state: CacheMetricsState): Record<CacheLayer, Record<string, number>> {
+  const totals = Object.fromEntries(LAYERS.map(layer => [layer, {} as Record<string, number>])) as Record<CacheLayer, Record<string, number>>;
+
+  for (const { labels, value } of Object.values(state.counters.operations ?? {})) {
+    if (labels.operation !== 'get') continue;
+    const layer = totals[labels.layer as CacheLayer];
+    if (layer) {
+      layer[labels.result] = (layer[labels.result] ?? 0) + value;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format (0.0.4).
+ */
+export function renderPrometheusMetrics(): string {
+  const state = getCacheMetrics();
+  const lookups = getLookupTotals(state);
+  const writer = new MetricsWriter();
+
+  writer.metric(
+    'nextjs_cache_operations_total',
+    'Cache handler calls by layer, backend, operation, route and result (hit/miss/stale for get, ok/error otherwise).',
+    'counter',
+    counterSamples(state, 'operations')
+  );
+
+  writer.histogram(
+    'nextjs_cache_operation_duration_seconds',
+    'Cache handler call duration; backend="gcs" includes the GCS round trip.',
+    Object.values(state.histograms.operation_duration ?? {})
+  );
+
+  writer.metric(
+    'nextjs_cache_hit_ratio',
+    'Share of gets served from cache (hit or stale) since the process started.',
+    'gauge',
+    LAYERS.map(layer => {
+      const { hit = 0, stale = 0, miss = 0 } = lookups[layer];
+      const total = hit + stale + miss;
+      return [{ layer }, total > 0 ? (hit + stale) / total : 0];
+    })
+  );
+
+  writer.metric(
+    'nextjs_cache_stale_served_total',
+    'Gets answered with an entry past its revalidate time.',
+    'counter',
+    LAYERS.map(layer => [{ layer }, lookups[layer].stale ?? 0])
+  );
+
+  writer.metric(
+    'nextjs_cache_set_bytes_total',
+    'Payload bytes written by cache handler sets.',
+    'counter',
+    counterSamples(state, 'set_bytes')
+  );
+
+  writer.metric(
+    'nextjs_cache_revalidations_total',
+    'Tag invalidations applied by the cache handlers (revalidateTag, updateTags).',
+    'counter',
+    counterSamples(state, 'revalidations')
+  );
+
+  writer.metric(
+    'nextjs_cache_revalidated_tags_total',
+    'Tags invalidated by the cache handlers.',
+    'counter',
+    counterSamples(state, 'revalidated_tags')
+  );
+
+  const { operations } = getOutboundProxyMetrics();
+  const purgeOperations = Object.entries(operations) as Array<[PurgeOperation, OperationMetrics]>;
+
+  writer.metric(
+    'nextjs_cdn_purges_total',
+    'CDN purges through the outbound proxy by operation and outcome.',
+    'counter',
+    purgeOperations.flatMap(([operation, metrics]): Array<[Labels, number]> => [
+      [{ operation, outcome: 'success' }, metrics.succeeded],
+      [{ operation, outcome: 'error' }, metrics.failed],
+    ])
+  );
+
+  writer.metric(
+    'nextjs_cdn_soft_purges_total',
+    'CDN purges sent in soft mode (marked stale instead of deleted).',
+    'counter',
+    purgeOperations.map(([operation, metrics]) => [{ operation }, metrics.soft_purges])
+  );
+
+  writer.metric(
+    'nextjs_cdn_purge_retries_total',
+    'CDN purge requests retried after a timeout, 429 or 5xx.',
+    'counter',
+    purgeOperations.map(([operation, metrics]) => [{ operation }, metrics.retries])
+  );
+
+  return writer.toString();
+}
@@ -0,0 +1,407 @@
+/**
+ * Cache Snapshots
+ *
+ * Export the origin cache (both layers) as one versioned JSON archive and
+ * import it into another environment, so a fresh deploy starts warm:
+ * test -> live, or GCS -> the local file backend for debugging. Entries are
+ * read and written through the same storage as lib/cache-inspector.ts, so an
+ * import lands in whatever backend createCacheHandler({ type: 'auto' })
+ * picks (CACHE_BUCKET set: GCS, otherwise `.next/cache`).
+ *
+ * Each archived entry is the stored object as the handler wrote it, plus
+ * its key, tags and expiry. Exports read READ_CONCURRENCY entries at a time
+ * and stop once the archived entries reach CACHE_SNAPSHOT_MAX_BYTES (default
+ * 100 MB): the archive is then marked `truncated`, and `skipped.over_limit`
+ * counts the objects left out (narrow the filter to export them). Imports:
+ *
+ * - skip entries that have expired by the time they are imported
+ * - skip keys that already exist, unless `overwrite` is set
+ * - skip route and 'use cache' entries when the archive was taken from a
+ *   different build (their payloads reference the build's chunks and 'use
+ *   cache' keys embed the build ID) unless `ignoreBuildId` is set. Fetch
+ *   entries are plain data and always carry over
+ * - add cacheHandler entries to the legacy tag mapping, so revalidateTag()
+ *   finds them, through the registered handler so its buffered tag writes
+ *   are not overwritten. 'use cache' entries carry their own tags; tag
+ *   invalidation times recorded in the target still apply to them
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { publishEntryChange } from '../cache-entry-events.mjs';
+import {
+  addTagMappings,
+  CACHE_ENTRY_TYPES,
+  CACHE_LAYERS,
+  getCacheStore,
+  matchesFilter,
+  parseEntry,
+  summarize,
+  type CacheEntryFilter,
+  type CacheEntryType,
+  type StoredObject,
+} from './cache-inspector';
+import type { CacheLayer } from './revalidation/impact';
+
+export const SNAPSHOT_FORMAT = 'nextjs-cache-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotEntry {
+  /** `<type>:<storage name>`, as listed by /api/cache-stats */
+  key: string;
+  layer: CacheLayer;
+  type: CacheEntryType;
+  tags: string[];
+  last_modified: string | null;
+  /** null: never expires, or the lifetime is not stored (pages) */
+  expires_at: string | null;
+  /** Stored object, as written by the cache handler */
+  data: unknown;
+}
+
+export interface CacheSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  created_at: string;
+  build_id: string | null;
+  backend: 'file' | 'gcs';
+  filter: CacheEntryFilter;
+  entry_count: number;
+  /** Whether the archive stopped at CACHE_SNAPSHOT_MAX_BYTES */
+  truncated: boolean;
+  /**
+   * Entries left out of the archive. `over_limit` counts the objects not
+   * read once the archive was full (with a tag filter, not all carry the tag)
+   */
+  skipped: { expired: number; unreadable: number; over_limit: number };
+  entries: SnapshotEntry[];
+}
+
+export type SnapshotSkipReason = 'expired' | 'exists' | 'build-mismatch';
+
+export interface LayerImportResult {
+  imported: number;
+  keys: string[];
+  skipped: Array<{ key: string; reason: SnapshotSkipReason }>;
+  failed: Array<{ key: string; error: string }>;
+}
+
+export interface SnapshotImportResult {
+  dry_run: boolean;
+  backend: 'file' | 'gcs';
+  build: {
+    snapshot: string | null;
+    current: string | null;
+    compatible: boolean;
+  };
+  imported: number;
+  layers: Record<CacheLayer, LayerImportResult>;
+}
+
+export interface SnapshotImportOptions {
+  dryRun?: boolean;
+  /** Replace entries that already exist in the target */
+  overwrite?: boolean;
+  /** Import route and 'use cache' entries from a different build */
+  ignoreBuildId?: boolean;
+}
+
+// Entries read while exporting, and written while importing, at a time
+const READ_CONCURRENCY = 10;
+const IMPORT_CONCURRENCY = 10;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Stored size of the entries in one export, which is built in memory
+const MAX_EXPORT_BYTES = readPositiveInt(process.env.CACHE_SNAPSHOT_MAX_BYTES, 100 * 1024 * 1024);
+
+// Storage names are handler-sanitized keys; anything else could escape the
+// cache directory
+const STORAGE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Build ID the cache handler compares against on startup: `.next/BUILD_ID`,
+ * else the build manifest. null in development, where there is neither.
+ */
+export function getCurrentBuildId(): string | null {
+  const nextDir = path.join(process.cwd(), '.next');
+
+  try {
+    const buildIdPath = path.join(nextDir, 'BUILD_ID');
+    if (existsSync(buildIdPath)) {
+      return readFileSync(buildIdPath, 'utf8').trim();
+    }
+
+    const manifest = JSON.parse(readFileSync(path.join(nextDir, 'build-manifest.json'), 'utf8'));
+    for (const file of manifest.lowPriorityFiles || []) {
+      const match = /static\/([^/]+)\/_/.exec(file);
+      if (match) {
+        return match[1];
+      }
+    }
+  } catch {
+    // No build output
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Archive the entry stored in `data`, or report why it is left out.
+ */
+function toSnapshotEntry(
+  object: StoredObject,
+  data: Buffer | null,
+  filter: CacheEntryFilter,
+  now: number
+): SnapshotEntry | 'unreadable' | 'expired' | null {
+  const entry = data && parseEntry(object, data);
+  if (!data || !entry) {
+    return 'unreadable';
+  }
+  if (filter.tag && !entry.tags.includes(filter.tag)) {
+    return null;
+  }
+
+  const summary = summarize(object, entry, now);
+  if (summary.state === 'expired') {
+    return 'expired';
+  }
+
+  const { lastModified, cacheLife } = entry;
+  return {
+    key: object.key,
+    layer: object.layer,
+    type: object.type,
+    tags: entry.tags,
+    last_modified: summary.last_modified,
+    expires_at: lastModified !== null && cacheLife.expire !== null
+      ? new Date(lastModified + cacheLife.expire * 1000).toISOString()
+      : null,
+    data: JSON.parse(data.toString('utf8')),
+  };
+}
+
+/**
+ * Archive the entries matching the filter (everything when it is empty),
+ * leaving out expired and unreadable ones, up to CACHE_SNAPSHOT_MAX_BYTES.
+ */
+export async function exportCacheSnapshot(filter: CacheEntryFilter = {}): Promise<CacheSnapshot> {
+  const store = getCacheStore();
+  const now = Date.now();
+  const objects = (await store.list())
+    .filter(object => matchesFilter(object, filter))
+    .sort((a, b) => (a.key < b.key ? -1 : 1));
+
+  const entries: SnapshotEntry[] = [];
+  const skipped = { expired: 0, unreadable: 0, over_limit: 0 };
+  let archivedBytes = 0;
+  let next = 0;
+
+  while (next < objects.length) {
+    // Only read what still fits, by listed size
+    const batch: StoredObject[] = [];
+    let batchBytes = 0;
+    while (
+      next < objects.length
+      && batch.length < READ_CONCURRENCY
+      && archivedBytes + batchBytes + objects[next].size <= MAX_EXPORT_BYTES
+    ) {
+      batchBytes += objects[next].size;
+      batch.push(objects[next++]);
+    }
+    if (batch.length === 0) break;
+
+    const reads = await Promise.all(batch.map(object => store.read(object)));
+
+    for (const [index, object] of batch.entries()) {
+      const result = toSnapshotEntry(object, reads[index], filter, now);
+      if (result === 'unreadable' || result === 'expired') {
+        skipped[result]++;
+      } else if (result) {
+        entries.push(result);
+        archivedBytes += reads[index]?.length ?? 0;
+      }
+    }
+  }
+  skipped.over_limit = objects.length - next;
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    created_at: new Date(now).toISOString(),
+    build_id: getCurrentBuildId(),
+    backend: store.backend,
+    filter,
+    entry_count: entries.length,
+    truncated: skipped.over_limit > 0,
+    skipped,
+    entries,
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function getLayer(entry: SnapshotEntry): CacheLayer {
+  return entry.type === 'use-cache' ? 'cacheHandlers' : 'cacheHandler';
+}
+
+function validateEntry(value: unknown, index: number): string | null {
+  if (!value || typeof value !== 'object') {
+    return `entries[${index}] must be an object`;
+  }
+
+  const entry = value as Partial<SnapshotEntry>;
+  if (!CACHE_ENTRY_TYPES.includes(entry.type as CacheEntryType)) {
+    return `entries[${index}].type must be one of: ${CACHE_ENTRY_TYPES.join(', ')}`;
+  }
+  const name = typeof entry.key === 'string' && entry.key.startsWith(`${entry.type}:`)
+    ? entry.key.slice(`${entry.type}:`.length)
+    : '';
+  // _tags is the 'use cache' tag index, not an entry
+  if (!STORAGE_NAME_PATTERN.test(name) || name === '_tags') {
+    return `entries[${index}].key must be a cache key of type ${entry.type}`;
+  }
+  if (!Array.isArray(entry.tags) || entry.tags.some(tag => typeof tag !== 'string')) {
+    return `entries[${index}].tags must be an array of strings`;
+  }
+  if (entry.expires_at !== null && (typeof entry.expires_at !== 'string' || Number.isNaN(Date.parse(entry.expires_at)))) {
+    return `entries[${index}].expires_at must be an ISO date or null`;
+  }
+  if (!entry.data || typeof entry.data !== 'object') {
+    return `entries[${index}].data must be the stored entry object`;
+  }
+
+  return null;
+}
+
+/**
+ * Check an uploaded archive before anything is written. All errors are
+ * returned.
+ */
+export function validateSnapshot(
+  body: unknown
+): { ok: true; snapshot: CacheSnapshot } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['Snapshot must be a JSON object'] };
+  }
+
+  const snapshot = body as Partial<CacheSnapshot>;
+  if (snapshot.format !== SNAPSHOT_FORMAT) {
+    return { ok: false, errors: [`format must be "${SNAPSHOT_FORMAT}"`] };
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    return { ok: false, errors: [`Unsupported snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`] };
+  }
+  if (snapshot.build_id !== null && typeof snapshot.build_id !== 'string') {
+    return { ok: false, errors: ['build_id must be a string or null'] };
+  }
+  if (!Array.isArray(snapshot.entries)) {
+    return { ok: false, errors: ['entries must be an array'] };
+  }
+
+  const errors = snapshot.entries
+    .map((entry, index) => validateEntry(entry, index))
+    .filter((error): error is string => error !== null);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, snapshot: snapshot as CacheSnapshot };
+}
+
+/**
+ * Write a validated archive into the current cache backend, or only report
+ * what would be written with `dryRun`.
+ */
+export async function importCacheSnapshot(
+  snapshot: CacheSnapshot,
+  { dryRun = false, overwrite = false, ignoreBuildId = false }: SnapshotImportOptions = {}
+): Promise<SnapshotImportResult> {
+  const store = getCacheStore();
+  const now = Date.now();
+  const currentBuildId = getCurrentBuildId();
+  const compatible = snapshot.build_id !== null && snapshot.build_id === currentBuildId;
+
+  const existing = overwrite ? new Set<string>() : new Set((await store.list()).map(object => object.key));
+
+  const layers = Object.fromEntries(CACHE_LAYERS.map(layer => [
+    layer,
+    { imported: 0, keys: [], skipped: [], failed: [] } as LayerImportResult,
+  ])) as Record<CacheLayer, LayerImportResult>;
+
+  const targets: SnapshotEntry[] = [];
+  for (const entry of snapshot.entries) {
+    const layer = layers[getLayer(entry)];
+
+    if (entry.expires_at !== null && Date.parse(entry.expires_at) <= now) {
+      layer.skipped.push({ key: entry.key, reason: 'expired' });
+    } else if (!compatible && !ignoreBuildId && entry.type !== 'fetch') {
+      layer.skipped.push({ key: entry.key, reason: 'build-mismatch' });
+    } else if (existing.has(entry.key)) {
+      layer.skipped.push({ key: entry.key, reason: 'exists' });
+    } else {
+      targets.push(entry);
+    }
+  }
+
+  const written: SnapshotEntry[] = [];
+
+  if (dryRun) {
+    written.push(...targets);
+  } else {
+    for (let i = 0; i < targets.length; i += IMPORT_CONCURRENCY) {
+      const batch = targets.slice(i, i + IMPORT_CONCURRENCY);
+      const results = await Promise.allSettled(batch.map(entry => store.write(
+        entry.type,
+        entry.key.slice(entry.type.length + 1),
+        Buffer.from(JSON.stringify(entry.data, null, 2))
+      )));
+
+      results.forEach((result, index) => {
+        const entry = batch[index];
+        if (result.status === 'fulfilled') {
+          written.push(entry);
+          publishEntryChange('set', entry.key);
+        } else {
+          const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          console.error(`[CacheSnapshot] Failed to import ${entry.key}:`, error);
+          layers[getLayer(entry)].failed.push({ key: entry.key, error });
+        }
+      });
+    }
+
+    // The handler sanitizes keys before using them as storage names, so the
+    // storage name deletes the same object on revalidateTag()
+    const tagMappings: Record<string, string[]> = {};
+    for (const entry of written) {
+      if (entry.type === 'use-cache') continue;
+      for (const tag of entry.tags) {
+        (tagMappings[tag] ??= []).push(entry.key.slice(entry.type.length + 1));
+      }
+    }
+    if (Object.keys(tagMappings).length > 0) {
+      await addTagMappings(store, tagMappings);
+    }
+  }
+
+  for (const entry of written) {
+    const layer = layers[getLayer(entry)];
+    layer.imported++;
+    layer.keys.push(entry.key);
+  }
+
+  return {
+    dry_run: dryRun,
+    backend: store.backend,
+    build: { snapshot: snapshot.build_id, current: currentBuildId, compatible },
+    imported: layers.cacheHandler.imported + layers.cacheHandlers.imported,
+    layers,
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * Outbound Proxy (CDN) Client
+ *
+ * The one place that talks to the platform's outbound proxy to purge the edge:
+ *
+ *   DELETE http://<OUTBOUND_PROXY_ENDPOINT>/rest/v0alpha1/cache/keys/<key>
+ *   DELETE http://<OUTBOUND_PROXY_ENDPOINT>/rest/v0alpha1/cache/paths/<path>
+ *   DELETE http://<OUTBOUND_PROXY_ENDPOINT>/rest/v0alpha1/cache
+ *
+ * - Requests carry `Authorization: Bearer <OUTBOUND_PROXY_TOKEN>` when set
+ * - Purges are hard (delete the object) by default. Soft purges send
+ *   `Fastly-Soft-Purge: 1`, which marks objects stale instead: the edge keeps
+ *   serving them (stale-while-revalidate) while the origin regenerates, so a
+ *   large purge doesn't send every request to the origin at once
+ * - Timeouts, network errors, 429 and 5xx responses are retried with
+ *   exponential backoff and jitter (OUTBOUND_PROXY_MAX_RETRIES); other 4xx
+ *   responses are final
+ * - Bulk purges run at most OUTBOUND_PROXY_CONCURRENCY requests at a time
+ * - Every purge returns a structured result and never throws
+ * - Counters per operation are kept for the metrics endpoints
+ *
+ * Metrics live on globalThis so every route bundle reports the same numbers.
+ */
+
+export type PurgeOperation = 'key' | 'path' | 'all';
+export type PurgeMode = 'hard' | 'soft';
+
+export interface PurgeOptions {
+  /** 'hard' deletes (default, for takedowns); 'soft' marks stale */
+  mode?: PurgeMode;
+}
+
+export interface EdgePurgeResult {
+  /** Surrogate key or URL path ('*' for a full purge) */
+  key: string;
+  operation: PurgeOperation;
+  mode: PurgeMode;
+  success: boolean;
+  /** HTTP status of the last attempt (absent if no request completed) */
+  status?: number;
+  /** Requests made, including retries */
+  attempts: number;
+  duration_ms: number;
+  /** Response body of the last attempt, if any */
+  response?: string;
+  error?: string;
+}
+
+export interface OperationMetrics {
+  purges: number;
+  soft_purges: number;
+  succeeded: number;
+  failed: number;
+  requests: number;
+  retries: number;
+  timeouts: number;
+  total_duration_ms: number;
+  /** Final responses by HTTP status ('network' when none was received) */
+  by_status: Record<string, number>;
+  last_error?: { key: string; error: string; at: string };
+}
+
+export interface OutboundProxyMetrics {
+  since: string;
+  operations: Record<PurgeOperation, OperationMetrics>;
+}
+
+export interface OutboundProxyConfig {
+  endpoint?: string;
+  authenticated: boolean;
+  timeout_ms: number;
+  max_retries: number;
+  concurrency: number;
+}
+
+const API_PREFIX = '/rest/v0alpha1/cache';
+const SOFT_PURGE_HEADER = 'Fastly-Soft-Purge';
+
+export const PURGE_MODES: PurgeMode[] = ['hard', 'soft'];
+
+const METRICS_SYMBOL = Symbol.for('@nextjs-cache-test-app/outbound-proxy-metrics');
+
+// Backoff: 200ms, 400ms, 800ms, ... (±50% jitter), capped
+const BACKOFF_BASE_MS = 200;
+const BACKOFF_MAX_MS = 5000;
+
+function readNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const TIMEOUT_MS = Math.max(1, readNonNegativeInt(process.env.OUTBOUND_PROXY_TIMEOUT_MS, 10000));
+const MAX_RETRIES = readNonNegativeInt(process.env.OUTBOUND_PROXY_MAX_RETRIES, 3);
+const CONCURRENCY = Math.max(1, readNonNegativeInt(process.env.OUTBOUND_PROXY_CONCURRENCY, 10));
+
+/**
+ * Parse a purge mode from a request (undefined → 'hard'). Returns null if invalid.
+ */
+export function parsePurgeMode(value: unknown): PurgeMode | null {
+  if (value === undefined || value === null || value === '') {
+    return 'hard';
+  }
+  return PURGE_MODES.includes(value as PurgeMode) ? (value as PurgeMode) : null;
+}
+
+export function getOutboundProxyEndpoint(): string | undefined {
+  return process.env.OUTBOUND_PROXY_ENDPOINT || undefined;
+}
+
+export function getOutboundProxyConfig(): OutboundProxyConfig {
+  return {
+    endpoint: getOutboundProxyEndpoint(),
+    authenticated: !!process.env.OUTBOUND_PROXY_TOKEN,
+    timeout_ms: TIMEOUT_MS,
+    max_retries: MAX_RETRIES,
+    concurrency: CONCURRENCY,
+  };
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+function emptyOperationMetrics(): OperationMetrics {
+  return {
+    purges: 0,
+    soft_purges: 0,
+    succeeded: 0,
+    failed: 0,
+    requests: 0,
+    retries: 0,
+    timeouts: 0,
+    total_duration_ms: 0,
+    by_status: {},
+  };
+}
+
+function getMetricsState(): OutboundProxyMetrics {
+  const registry = globalThis as typeof globalThis & {
+    [METRICS_SYMBOL]?: OutboundProxyMetrics;
+  };
+
+  if (!registry[METRICS_SYMBOL]) {
+    registry[METRICS_SYMBOL] = {
+      since: new Date().toISOString(),
+      operations: {
+        key: emptyOperationMetrics(),
+        path: emptyOperationMetrics(),
+        all: emptyOperationMetrics(),
+      },
+    };
+  }
+
+  return registry[METRICS_SYMBOL];
+}
+
+function recordPurge(result: EdgePurgeResult, timeouts: number): void {
+  const metrics = getMetricsState().operations[result.operation];
+  const status = result.status === undefined ? 'network' : String(result.status);
+
+  metrics.purges++;
+  if (result.mode === 'soft') metrics.soft_purges++;
+  metrics.requests += result.attempts;
+  metrics.retries += Math.max(0, result.attempts - 1);
+  metrics.timeouts += timeouts;
+  metrics.total_duration_ms += result.duration_ms;
+  metrics.by_status[status] = (metrics.by_status[status] ?? 0) + 1;
+
+  if (result.success) {
+    metrics.succeeded++;
+  } else {
+    metrics.failed++;
+    metrics.last_error = { key: result.key, error: result.error ?? 'Unknown error', at: new Date().toISOString() };
+  }
+}
+
+/**
+ * Counters since the process started.
+ */
+export function getOutboundProxyMetrics(): OutboundProxyMetrics {
+  return structuredClone(getMetricsState());
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function getBackoffMs(attempt: number, retryAfter: string | null): number {
+  // Honour Retry-After (seconds) from a 429/503, within the cap
+  const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, BACKOFF_MAX_MS);
+  }
+
+  const exponential = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+  return Math.round(exponential * (0.5 + Math.random()));
+}
+
+/**
+ * Send a purge request, retrying transient failures. Never throws.
+ */
+async function sendPurge(
+  key: string,
+  operation: PurgeOperation,
+  resource: string,
+  mode: PurgeMode = 'hard'
+): Promise<EdgePurgeResult> {
+  const endpoint = getOutboundProxyEndpoint();
+  const startTime = Date.now();
+  const label = `${operation === 'all' ? 'nuke-all' : `clear-${operation}:${key}`}${mode === 'soft' ? ' (soft)' : ''}`;
+
+  if (!endpoint) {
+    return { key, operation, mode, success: false, attempts: 0, duration_ms: 0, error: 'OUTBOUND_PROXY_ENDPOINT not configured' };
+  }
+
+  const targetUrl = `http://${endpoint}${API_PREFIX}${resource}`;
+  const token = process.env.OUTBOUND_PROXY_TOKEN;
+
+  let attempts = 0;
+  let timeouts = 0;
+  let result: EdgePurgeResult;
+
+  while (true) {
+    attempts++;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    let retryAfter: string | null = null;
+    let retryable: boolean;
+
+    try {
+      const response = await fetch(targetUrl, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...(mode === 'soft' && { [SOFT_PURGE_HEADER]: '1' }),
+        },
+        // Keep Next.js' patched fetch from caching (and replaying) the purge
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+
+      // Read the body so the connection can be reused
+      const body = await response.text().catch(() => '');
+      retryAfter = response.headers.get('retry-after');
+      retryable = isRetryableStatus(response.status);
+
+      result = {
+        key,
+        operation,
+        mode,
+        success: response.ok,
+        status: response.status,
+        attempts,
+        duration_ms: Date.now() - startTime,
+        ...(body && { response: body }),
+        ...(!response.ok && { error: `Proxy returned ${response.status}` }),
+      };
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      if (timedOut) timeouts++;
+      retryable = true;
+
+      result = {
+        key,
+        operation,
+        mode,
+        success: false,
+        attempts,
+        duration_ms: Date.now() - startTime,
+        error: timedOut ? `Timed out after ${TIMEOUT_MS}ms` : error instanceof Error ? error.message : 'Unknown error',
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (result.success || !retryable || attempts > MAX_RETRIES) {
+      break;
+    }
+
+    const backoff = getBackoffMs(attempts, retryAfter);
+    console.warn(`[OutboundProxy] ${label} attempt ${attempts} failed (${result.error}), retrying in ${backoff}ms`);
+    await new Promise(resolve => setTimeout(resolve, backoff));
+  }
+
+  result.duration_ms = Date.now() - startTime;
+  recordPurge(result, timeouts);
+
+  if (result.success) {
+    console.log(`[OutboundProxy] ${label} - Status: ${result.status}, Duration: ${result.duration_ms}ms`);
+  } else {
+    console.error(`[OutboundProxy] ${label} failed after ${attempts} attempts: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * Run purges with at most CONCURRENCY in flight, keeping input order.
+ */
+async function purgeMany<T>(items: T[], purge: (item: T) => Promise<EdgePurgeResult>): Promise<EdgePurgeResult[]> {
+  const results: EdgePurgeResult[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await purge(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+  return results;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Purge a single surrogate key.
+ */
+export function purgeSurrogateKey(key: string, options: PurgeOptions = {}): Promise<EdgePurgeResult> {
+  return sendPurge(key, 'key', `/keys/${encodeURIComponent(key)}`, options.mode);
+}
+
+/**
+ * Purge many surrogate keys (deduplicated), OUTBOUND_PROXY_CONCURRENCY at a time.
+ */
+export function purgeSurrogateKeys(keys: string[], options: PurgeOptions = {}): Promise<EdgePurgeResult[]> {
+  return purgeMany([...new Set(keys)], key => purgeSurrogateKey(key, options));
+}
+
+/**
+ * Purge a single URL path. Each segment is encoded separately so slashes
+ * remain path separators. The root path has no representation in the proxy
+ * API (it would take a full purge), so it is rejected here.
+ */
+export async function purgePath(path: string, options: PurgeOptions = {}): Promise<EdgePurgeResult> {
+  const normalizedPath = path.startsWith('/') ? path.slice(1) : path;
+
+  if (!normalizedPath) {
+    return {
+      key: path,
+      operation: 'path',
+      mode: options.mode ?? 'hard',
+      success: false,
+      attempts: 0,
+      duration_ms: 0,
+      error: 'The root path can only be purged with a full CDN clear',
+    };
+  }
+
+  const encodedPath = normalizedPath.split('/').map(encodeURIComponent).join('/');
+  return sendPurge(path, 'path', `/paths/${encodedPath}`, options.mode);
+}
+
+/**
+ * Purge many URL paths (deduplicated), OUTBOUND_PROXY_CONCURRENCY at a time.
+ */
+export function purgePaths(paths: string[], options: PurgeOptions = {}): Promise<EdgePurgeResult[]> {
+  return purgeMany([...new Set(paths)], path => purgePath(path, options));
+}
+
+/**
+ * Purge the entire edge cache. A soft purge marks everything stale, so the
+ * origin is not hit by every request at once.
+ */
+export function purgeAll(options: PurgeOptions = {}): Promise<EdgePurgeResult> {
+  return sendPurge('*', 'all', '', options.mode);
+}
@@ -0,0 +1,163 @@
+/**
+ * Configuration Report
+ *
+ * The effective configuration of this instance, for /api/env. Nothing is
+ * echoed from process.env wholesale:
+ *
+ * - Derived settings (data source mode, cache handler type, WordPress host,
+ *   outbound proxy) are computed the way the app itself decides them
+ * - Tunables are read from an allowlist of non-secret variables
+ * - Secrets are reported as present/absent with their length. With
+ *   CONFIG_FINGERPRINT_KEY set (the same key on every instance) they also
+ *   get a keyed HMAC-SHA256 fingerprint, enough to check two instances share
+ *   a value; without the key it can't be used to test guesses offline
+ *
+ * Variables not listed here are never reported; add new settings to
+ * SETTINGS or SECRETS when they are introduced.
+ */
+
+import { createHmac } from 'crypto';
+import { isMockMode } from './data-source';
+import { getCacheLifeProfiles, PAGE_CACHE_PROFILES, resolveCacheLife, type ResolvedCacheLife } from './cache-control-policy';
+import { getOutboundProxyConfig } from './cdn/outbound-proxy';
+
+export interface SecretStatus {
+  present: boolean;
+  length?: number;
+  /** `hmac-sha256:<first 16 hex chars>` keyed with CONFIG_FINGERPRINT_KEY, when set */
+  fingerprint?: string;
+}
+
+export interface ConfigReport {
+  node_env: string;
+  node_version: string;
+  data_source: { mode: 'mock' | 'real' };
+  cache_handler: { type: 'gcs' | 'file'; bucket: string | null };
+  wordpress: { configured: boolean; host: string | null };
+  outbound_proxy: {
+    configured: boolean;
+    authenticated: boolean;
+    timeout_ms: number;
+    max_retries: number;
+    concurrency: number;
+  };
+  cache_life: {
+    profiles: Record<string, ResolvedCacheLife>;
+    /** Inline configs are reported as `inline`, with their resolved values */
+    pages: Array<{ pattern: string; profile: string } & ResolvedCacheLife>;
+  };
+  /** Allowlisted non-secret variables (null when unset) */
+  settings: Record<string, string | null>;
+  secrets: Record<string, SecretStatus>;
+}
+
+// Non-secret tunables, reported as is
+const SETTINGS = [
+  'E2E_MOCK_DATA',
+  'NEXT_PUBLIC_ENABLE_CACHE_LOGGING',
+  'SURROGATE_KEY_DEBUG',
+  'SURROGATE_KEY_MAX_BYTES',
+  'SURROGATE_KEY_MAX_KEY_BYTES',
+  'SHUTDOWN_TIMEOUT_MS',
+  'READINESS_PROBE_TIMEOUT_MS',
+  'WEBHOOK_ALLOW_UNSIGNED',
+  'WEBHOOK_SIGNATURE_TOLERANCE_SECONDS',
+  'PURGE_QUEUE_DEBOUNCE_MS',
+  'PURGE_QUEUE_MAX_WAIT_MS',
+  'PURGE_QUEUE_BATCH_SIZE',
+  'PURGE_QUEUE_MAX_PURGES_PER_SECOND',
+  'TAG_CASCADE_RULES',
+  'SCHEDULER_POLL_MS',
+  'SCHEDULER_RETENTION_HOURS',
+  'AUDIT_LOG_RETENTION_DAYS',
+  'CACHE_DASHBOARD_POLL_MS',
+  'CACHE_DASHBOARD_MAX_ENTRIES',
+  'CACHE_SNAPSHOT_MAX_BYTES',
+  'OUTBOUND_PROXY_TIMEOUT_MS',
+  'OUTBOUND_PROXY_MAX_RETRIES',
+  'OUTBOUND_PROXY_CONCURRENCY',
+  'ADMIN_IP_ALLOWLIST',
+  'TRUSTED_PROXY_COUNT',
+  'ADMIN_AUTH_DISABLED',
+];
+
+// Credentials: only presence, length and a keyed fingerprint are reported
+const SECRETS = [
+  'CONFIG_FINGERPRINT_KEY',
+  'WEBHOOK_SECRET',
+  'WEBHOOK_SECRET_PREVIOUS',
+  'OUTBOUND_PROXY_TOKEN',
+  'ADMIN_TOKEN',
+  'ADMIN_TOKENS',
+  'GOOGLE_APPLICATION_CREDENTIALS',
+];
+
+function fingerprint(value: string, key: string): string {
+  return `hmac-sha256:${createHmac('sha256', key).update(value).digest('hex').slice(0, 16)}`;
+}
+
+function getSecretStatus(name: string): SecretStatus {
+  const value = process.env[name];
+  const key = process.env.CONFIG_FINGERPRINT_KEY;
+
+  if (!value) {
+    return { present: false };
+  }
+  return {
+    present: true,
+    length: value.length,
+    // The key's own fingerprint would let it be brute-forced
+    ...(key && name !== 'CONFIG_FINGERPRINT_KEY' && { fingerprint: fingerprint(value, key) }),
+  };
+}
+
+/**
+ * Host of WORDPRESS_API_URL (no path, query or credentials).
+ */
+function getWordPressHost(): string | null {
+  const url = process.env.WORDPRESS_API_URL;
+  if (!url) {
+    return null;
+  }
+
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+/**
+ * Build the configuration report.
+ */
+export function getConfigReport(): ConfigReport {
+  const proxy = getOutboundProxyConfig();
+  const bucket = process.env.CACHE_BUCKET || null;
+  const wordpressHost = getWordPressHost();
+
+  return {
+    node_env: process.env.NODE_ENV || 'development',
+    node_version: process.version,
+    data_source: { mode: isMockMode() ? 'mock' : 'real' },
+    // Same rule as createCacheHandler({ type: 'auto' })
+    cache_handler: { type: bucket ? 'gcs' : 'file', bucket },
+    wordpress: { configured: wordpressHost !== null, host: wordpressHost },
+    outbound_proxy: {
+      configured: !!proxy.endpoint,
+      authenticated: proxy.authenticated,
+      timeout_ms: proxy.timeout_ms,
+      max_retries: proxy.max_retries,
+      concurrency: proxy.concurrency,
+    },
+    cache_life: {
+      profiles: getCacheLifeProfiles(),
+      pages: PAGE_CACHE_PROFILES.map(({ pattern, profile }) => ({
+        pattern,
+        profile: typeof profile === 'string' ? profile : 'inline',
+        ...resolveCacheLife(profile),
+      })),
+    },
+    settings: Object.fromEntries(SETTINGS.map(name => [name, process.env[name] ?? null])),
+    secrets: Object.fromEntries(SECRETS.map(name => [name, getSecretStatus(name)])),
+  };
+}
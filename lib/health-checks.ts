@@ -0,0 +1,202 @@
+/**
+ * Readiness Probes
+ *
+ * Dependency checks used by /api/ready:
+ * - cache_handler: the handler picked by createCacheHandler({ type: 'auto' })
+ *   can write and read back a canary entry
+ * - gcs_bucket:    the CACHE_BUCKET bucket is reachable (skipped when unset)
+ * - wordpress:     WORDPRESS_API_URL answers (skipped when unset)
+ *
+ * Each probe is bounded by a timeout so a hung dependency fails the check
+ * instead of hanging the readiness endpoint.
+ */
+
+import {
+  createCacheHandler,
+  type CacheHandlerParametersGet,
+  type CacheHandlerParametersSet,
+} from '@pantheon-systems/nextjs-cache-handler';
+import type { CachedRouteKind, IncrementalCacheKind } from 'next/dist/server/response-cache/types';
+import { Storage } from '@google-cloud/storage';
+
+export type CheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface CheckResult {
+  status: CheckStatus;
+  latency_ms: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// An invalid value would make every probe time out at once
+const PROBE_TIMEOUT_MS = readPositiveInt(process.env.READINESS_PROBE_TIMEOUT_MS, 3000);
+
+// Fixed key so repeated probes overwrite a single entry instead of growing the cache
+const CANARY_CACHE_KEY = '__readiness-canary__';
+
+type CacheHandlerInstance = InstanceType<ReturnType<typeof createCacheHandler>>;
+
+// Next.js declares the entry kinds as ambient const enums (types only); their
+// values are the strings
+const FETCH_ENTRY_KIND = 'FETCH' as CachedRouteKind.FETCH;
+const FETCH_CACHE_KIND = 'FETCH' as IncrementalCacheKind.FETCH;
+
+let cacheHandler: CacheHandlerInstance | null = null;
+let storage: Storage | null = null;
+
+function getCacheHandler(): CacheHandlerInstance {
+  if (!cacheHandler) {
+    const CacheHandler = createCacheHandler({ type: 'auto' });
+    cacheHandler = new CacheHandler({} as ConstructorParameters<typeof CacheHandler>[0]);
+  }
+  return cacheHandler;
+}
+
+/**
+ * Reject if the probe takes longer than PROBE_TIMEOUT_MS.
+ */
+async function withTimeout<T>(probe: Promise<T>, name: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`${name} probe timed out after ${PROBE_TIMEOUT_MS}ms`)),
+      PROBE_TIMEOUT_MS
+    );
+  });
+
+  try {
+    return await Promise.race([probe, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Run a probe, timing it and converting exceptions into a failed check.
+ */
+async function runCheck(
+  name: string,
+  probe: () => Promise<Record<string, unknown> | undefined>
+): Promise<CheckResult> {
+  const startTime = Date.now();
+
+  try {
+    const details = await withTimeout(probe(), name);
+    return { status: 'pass', latency_ms: Date.now() - startTime, ...(details && { details }) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Readiness] ${name} check failed:`, message);
+    return { status: 'fail', latency_ms: Date.now() - startTime, error: message };
+  }
+}
+
+function skipped(reason: string): CheckResult {
+  return { status: 'skip', latency_ms: 0, details: { reason } };
+}
+
+/**
+ * Write a canary fetch-cache entry and read it back.
+ */
+export async function checkCacheHandler(): Promise<CheckResult> {
+  const backend = process.env.CACHE_BUCKET ? 'gcs' : 'file';
+
+  return runCheck('cache_handler', async () => {
+    const handler = getCacheHandler();
+    const nonce = `${process.pid}-${Date.now()}`;
+
+    const value: CacheHandlerParametersSet[1] = {
+      kind: FETCH_ENTRY_KIND,
+      data: { headers: {}, body: nonce, status: 200, url: '' },
+      revalidate: 60,
+    };
+    const setContext: CacheHandlerParametersSet[2] = { fetchCache: true, tags: [] };
+    // Like Next.js, identify the lookup as a fetch by its URL and index
+    const getContext: CacheHandlerParametersGet[1] = { kind: FETCH_CACHE_KIND, fetchUrl: '', fetchIdx: 0 };
+
+    await handler.set(CANARY_CACHE_KEY, value, setContext);
+
+    const entry = await handler.get(CANARY_CACHE_KEY, getContext);
+    const body = entry?.value?.kind === FETCH_ENTRY_KIND ? entry.value.data.body : undefined;
+
+    if (body !== nonce) {
+      throw new Error('Canary entry could not be read back after write');
+    }
+
+    return { backend };
+  });
+}
+
+/**
+ * Check that the CACHE_BUCKET bucket exists and is accessible.
+ */
+export async function checkGcsBucket(): Promise<CheckResult> {
+  const bucketName = process.env.CACHE_BUCKET;
+
+  if (!bucketName) {
+    return skipped('CACHE_BUCKET not configured');
+  }
+
+  return runCheck('gcs_bucket', async () => {
+    if (!storage) {
+      storage = new Storage();
+    }
+
+    const [exists] = await storage.bucket(bucketName).exists();
+    if (!exists) {
+      throw new Error(`Bucket ${bucketName} not found`);
+    }
+
+    return { bucket: bucketName };
+  });
+}
+
+/**
+ * Check that the WordPress REST API answers.
+ */
+export async function checkWordPress(): Promise<CheckResult> {
+  const apiUrl = process.env.WORDPRESS_API_URL;
+
+  if (!apiUrl) {
+    return skipped('WORDPRESS_API_URL not configured');
+  }
+
+  return runCheck('wordpress', async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${apiUrl}/posts?per_page=1&_fields=id`, {
+        headers: { 'Accept': 'application/json' },
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`WordPress API error: ${response.status} ${response.statusText}`);
+      }
+
+      return { host: new URL(apiUrl).host, status: response.status };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+}
+
+/**
+ * Run all dependency checks in parallel.
+ */
+export async function runReadinessChecks(): Promise<Record<string, CheckResult>> {
+  const [cache_handler, gcs_bucket, wordpress] = await Promise.all([
+    checkCacheHandler(),
+    checkGcsBucket(),
+    checkWordPress(),
+  ]);
+
+  return { cache_handler, gcs_bucket, wordpress };
+}
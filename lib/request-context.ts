@@ -0,0 +1,144 @@
+/**
+ * Request Context
+ *
+ * Request-scoped state shared between the custom server (server.ts) and the
+ * cache handlers (use-cache-handler.mjs). Each incoming request gets its own
+ * context via AsyncLocalStorage, so concurrent requests can never see or
+ * clear each other's Surrogate-Key tags, and each request records the cache
+ * lookups made on its behalf for diagnostics headers.
+ *
+ * The cache handlers are loaded by Next.js in a different module context than
+ * server.ts, so the accessor is registered on globalThis under a well-known
+ * Symbol.for() key (same pattern as @pantheon-systems/nextjs-cache-handler's
+ * CacheTagContext). Handlers read it through cache-request-context.mjs:
+ *
+ *   globalThis[Symbol.for('@nextjs-cache-test-app/request-context')]?.get()
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { getRoutePattern } from './cache-control-policy';
+
+/**
+ * A single cache handler lookup made while serving a request.
+ */
+export interface CacheLookup {
+  /** cacheHandler (ISR, routes, fetch) or cacheHandlers ('use cache') */
+  layer: 'cacheHandler' | 'cacheHandlers';
+  key: string;
+  result: 'hit' | 'miss' | 'stale';
+  backend: 'gcs' | 'file';
+  durationMs: number;
+}
+
+export interface RequestContextData {
+  requestId: string;
+  pathname: string;
+  /** Route pattern of the pathname, for metrics labels */
+  route: string;
+  startTime: number;
+  /** Cache tags collected by the cache handlers while serving this request */
+  tags: string[];
+  /** Cache lookups recorded by the cache handlers while serving this request */
+  lookups: CacheLookup[];
+}
+
+interface RequestContextAccessor {
+  storage: AsyncLocalStorage<RequestContextData>;
+  get(): RequestContextData | undefined;
+}
+
+const REQUEST_CONTEXT_SYMBOL = Symbol.for('@nextjs-cache-test-app/request-context');
+
+/**
+ * Get the process-wide accessor, creating it on first use.
+ * Every module instance (server.ts, bundled route handlers) shares the same
+ * AsyncLocalStorage through globalThis.
+ */
+function getAccessor(): RequestContextAccessor {
+  const registry = globalThis as typeof globalThis & {
+    [REQUEST_CONTEXT_SYMBOL]?: RequestContextAccessor;
+  };
+
+  if (!registry[REQUEST_CONTEXT_SYMBOL]) {
+    const storage = new AsyncLocalStorage<RequestContextData>();
+    registry[REQUEST_CONTEXT_SYMBOL] = {
+      storage,
+      get: () => storage.getStore(),
+    };
+  }
+
+  return registry[REQUEST_CONTEXT_SYMBOL];
+}
+
+/**
+ * Run a callback within a fresh request context.
+ * Called by server.ts once per incoming request.
+ */
+export function runWithRequestContext<T>(
+  pathname: string,
+  callback: (context: RequestContextData) => T
+): T {
+  const context: RequestContextData = {
+    requestId: randomUUID(),
+    pathname,
+    route: getRoutePattern(pathname),
+    startTime: Date.now(),
+    tags: [],
+    lookups: [],
+  };
+
+  return getAccessor().storage.run(context, () => callback(context));
+}
+
+/**
+ * Get the context of the request currently being served, if any.
+ */
+export function getRequestContext(): RequestContextData | undefined {
+  return getAccessor().get();
+}
+
+/**
+ * Add cache tags to the current request context.
+ * Returns false when called outside of a request (e.g. during build).
+ */
+export function addRequestTags(tags: string[]): boolean {
+  const context = getRequestContext();
+
+  if (!context) {
+    return false;
+  }
+
+  context.tags.push(...tags);
+  return true;
+}
+
+/**
+ * Get the deduplicated tags collected for the current request.
+ */
+export function getRequestTags(): string[] {
+  const context = getRequestContext();
+  return context ? [...new Set(context.tags)] : [];
+}
+
+/**
+ * Get the cache lookups recorded for the current request.
+ */
+export function getCacheLookups(): CacheLookup[] {
+  return getRequestContext()?.lookups ?? [];
+}
+
+/**
+ * Whether the current request was served entirely from cache, based on the
+ * lookups the cache handlers recorded. Returns undefined when nothing was
+ * recorded (e.g. running under `next dev` without server.ts).
+ */
+export function getRecordedCacheHit(): boolean | undefined {
+  const lookups = getCacheLookups();
+
+  if (lookups.length === 0) {
+    return undefined;
+  }
+
+  return lookups.every(lookup => lookup.result !== 'miss');
+}
@@ -0,0 +1,490 @@
+/**
+ * Revalidation Audit Log
+ *
+ * Records every cache invalidation (tag, path, batch, CDN key or path, CDN nuke,
+ * origin cache clear) with when, where from, who asked, what happened per key
+ * and how long it took, so "who purged post-list at 3am?" has an answer.
+ *
+ * Stores (picked like createCacheHandler({ type: 'auto' })):
+ * - GCS:  gs://<CACHE_BUCKET>/revalidation-log/<YYYY-MM-DD>/<timestamp>-<id>.json
+ * - File: .cache/revalidation-log/<YYYY-MM-DD>.jsonl
+ *
+ * Day partitions older than AUDIT_LOG_RETENTION_DAYS (default 90) are deleted
+ * by the writing process, at most once an hour.
+ *
+ * Writing a record never throws; a failed write is logged and dropped so
+ * auditing can't break an invalidation.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Storage, Bucket, type File } from '@google-cloud/storage';
+import { getClientIp } from '../admin-auth';
+import { publishCacheEvent } from '../cache-events';
+import type { KeyRevalidationResult } from './coordinator';
+import type { BatchOperationResult } from './batch';
+
+export type AuditOperation = 'tag' | 'path' | 'batch' | 'cdn-key' | 'cdn-path' | 'cdn-nuke' | 'origin-clear' | 'snapshot-import';
+export type AuditOutcome = 'success' | 'partial' | 'error' | 'queued';
+export type AuditTargetOutcome = 'success' | 'error' | 'queued';
+
+export interface AuditTarget {
+  /** Cache tag, CDN key or path */
+  key: string;
+  /** Edge key, when it differs from the tag (hashed keys) */
+  surrogate_key?: string;
+  outcome: AuditTargetOutcome;
+  origin?: string;
+  edge?: string;
+  message?: string;
+}
+
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  /** Endpoint or component that performed the invalidation */
+  source: string;
+  operation: AuditOperation;
+  requester: {
+    ip: string;
+    user_agent?: string;
+    auth?: string;
+  };
+  outcome: AuditOutcome;
+  duration_ms: number;
+  targets: AuditTarget[];
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  key?: string;
+  /** Inclusive lower bound (ms since epoch) */
+  from: number;
+  /** Inclusive upper bound (ms since epoch) */
+  to: number;
+  outcome?: AuditOutcome | AuditTargetOutcome;
+  source?: string;
+  limit: number;
+}
+
+export interface AuditQueryResult {
+  records: AuditRecord[];
+  /** Records read, before the key, outcome and source filters */
+  scanned: number;
+  /** Whether the scan stopped at MAX_RECORDS_SCANNED before reaching `from` */
+  truncated: boolean;
+  /** `to` for the next query: older matches may exist before it (null: none) */
+  next_to: number | null;
+}
+
+export interface AuditLogStore {
+  readonly type: 'gcs' | 'file';
+  append(record: AuditRecord): Promise<void>;
+  /** Records in the time range, newest first */
+  list(from: number, to: number): Promise<AuditRecord[]>;
+  /** Delete the day partitions before the given day (YYYY-MM-DD); returns how many */
+  prune(beforeDay: string): Promise<number>;
+}
+
+const LOG_PREFIX = 'revalidation-log';
+
+// Upper bound on records read per query, to keep the endpoint cheap
+const MAX_RECORDS_SCANNED = 5000;
+
+// GCS record downloads in flight, and object names listed per request
+const READ_CONCURRENCY = 10;
+const LIST_PAGE_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const RETENTION_DAYS = readPositiveInt(process.env.AUDIT_LOG_RETENTION_DAYS, 90);
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_PARTITION_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * UTC day partitions (YYYY-MM-DD) covering the range, newest first.
+ */
+function getDayPartitions(from: number, to: number): string[] {
+  const days: string[] = [];
+  const start = Date.UTC(new Date(from).getUTCFullYear(), new Date(from).getUTCMonth(), new Date(from).getUTCDate());
+
+  for (let day = start; day <= to; day += DAY_MS) {
+    days.push(new Date(day).toISOString().slice(0, 10));
+  }
+
+  return days.reverse();
+}
+
+function inRange(record: AuditRecord, from: number, to: number): boolean {
+  const time = Date.parse(record.timestamp);
+  return time >= from && time <= to;
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight, keeping input order.
+ */
+async function mapConcurrently<T, R>(items: T[], concurrency: number, map: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+class FileAuditLogStore implements AuditLogStore {
+  readonly type = 'file' as const;
+
+  constructor(private readonly directory: string) {}
+
+  async append(record: AuditRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${record.timestamp.slice(0, 10)}.jsonl`);
+    await fs.appendFile(file, `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  async list(from: number, to: number): Promise<AuditRecord[]> {
+    const records: AuditRecord[] = [];
+
+    for (const day of getDayPartitions(from, to)) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.directory, `${day}.jsonl`), 'utf8');
+      } catch {
+        continue;
+      }
+
+      const dayRecords = content
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line) as AuditRecord];
+          } catch {
+            return [];
+          }
+        })
+        .filter(record => inRange(record, from, to))
+        .reverse();
+
+      records.push(...dayRecords);
+      if (records.length >= MAX_RECORDS_SCANNED) break;
+    }
+
+    return records.slice(0, MAX_RECORDS_SCANNED);
+  }
+
+  async prune(beforeDay: string): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return 0;
+    }
+
+    const expired = files.filter(file => {
+      const day = path.basename(file, '.jsonl');
+      return file.endsWith('.jsonl') && DAY_PARTITION_PATTERN.test(day) && day < beforeDay;
+    });
+    await Promise.all(expired.map(file => fs.unlink(path.join(this.directory, file))));
+
+    return expired.length;
+  }
+}
+
+class GcsAuditLogStore implements AuditLogStore {
+  readonly type = 'gcs' as const;
+
+  constructor(private readonly bucket: Bucket) {}
+
+  async append(record: AuditRecord): Promise<void> {
+    // GCS objects can't be appended to, so each record is its own object.
+    // The timestamp prefix keeps listing order chronological.
+    const file = this.bucket.file(`${LOG_PREFIX}/${record.timestamp.slice(0, 10)}/${record.timestamp}-${record.id}.json`);
+    await file.save(JSON.stringify(record), {
+      metadata: { contentType: 'application/json' },
+    });
+  }
+
+  /**
+   * The day's record objects in the time range, keeping only the newest
+   * `max`. Object names start with the ISO timestamp, so the range is a name
+   * range and listing order is chronological.
+   */
+  private async listDay(day: string, from: number, to: number, max: number): Promise<File[]> {
+    const prefix = `${LOG_PREFIX}/${day}/`;
+    let files: File[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const [page, nextQuery] = await this.bucket.getFiles({
+        prefix,
+        startOffset: `${prefix}${new Date(from).toISOString()}`,
+        endOffset: `${prefix}${new Date(to + 1).toISOString()}`,
+        autoPaginate: false,
+        maxResults: LIST_PAGE_SIZE,
+        pageToken,
+      });
+      files = files.concat(page).slice(-max);
+      pageToken = nextQuery?.pageToken;
+    } while (pageToken);
+
+    return files;
+  }
+
+  async list(from: number, to: number): Promise<AuditRecord[]> {
+    const records: AuditRecord[] = [];
+
+    for (const day of getDayPartitions(from, to)) {
+      const candidates = (await this.listDay(day, from, to, MAX_RECORDS_SCANNED - records.length)).reverse();
+
+      const dayRecords = await mapConcurrently(candidates, READ_CONCURRENCY, async file => {
+        try {
+          const [content] = await file.download();
+          return JSON.parse(content.toString()) as AuditRecord;
+        } catch (error) {
+          console.error(`[AuditLog] Failed to read ${file.name}:`, error);
+          return null;
+        }
+      });
+
+      records.push(...dayRecords.filter((record): record is AuditRecord => record !== null && inRange(record, from, to)));
+      if (records.length >= MAX_RECORDS_SCANNED) break;
+    }
+
+    return records;
+  }
+
+  async prune(beforeDay: string): Promise<number> {
+    const days: string[] = [];
+    let pageToken: string | undefined;
+
+    // Day partitions are the "directories" under the log prefix
+    do {
+      const [, nextQuery, response] = await this.bucket.getFiles({
+        prefix: `${LOG_PREFIX}/`,
+        delimiter: '/',
+        autoPaginate: false,
+        pageToken,
+      });
+      for (const prefix of (response as { prefixes?: string[] })?.prefixes || []) {
+        const day = prefix.slice(`${LOG_PREFIX}/`.length, -1);
+        if (DAY_PARTITION_PATTERN.test(day) && day < beforeDay) {
+          days.push(day);
+        }
+      }
+      pageToken = nextQuery?.pageToken;
+    } while (pageToken);
+
+    for (const day of days) {
+      await this.bucket.deleteFiles({ prefix: `${LOG_PREFIX}/${day}/` });
+    }
+
+    return days.length;
+  }
+}
+
+let store: AuditLogStore | null = null;
+let lastPruneAt = 0;
+
+/**
+ * Get the audit log store: GCS when CACHE_BUCKET is set, otherwise file-based.
+ */
+export function getAuditLogStore(): AuditLogStore {
+  if (!store) {
+    const bucketName = process.env.CACHE_BUCKET;
+    store = bucketName
+      ? new GcsAuditLogStore(new Storage().bucket(bucketName))
+      : new FileAuditLogStore(path.join(process.cwd(), '.cache', LOG_PREFIX));
+  }
+  return store;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+interface HeadersLike {
+  get(name: string): string | null;
+}
+
+/**
+ * Describe the requester from request headers (client IP behind the CDN,
+ * see getClientIp()).
+ */
+export function getRequester(headers: HeadersLike, auth?: string): AuditRecord['requester'] {
+  const userAgent = headers.get('user-agent');
+
+  return {
+    ip: getClientIp(headers),
+    ...(userAgent && { user_agent: userAgent }),
+    ...(auth && { auth }),
+  };
+}
+
+/**
+ * Audit targets for coordinator results (origin + edge per key).
+ */
+export function toAuditTargets(results: KeyRevalidationResult[]): AuditTarget[] {
+  return results.map(result => ({
+    key: result.tag,
+    ...(result.surrogate_key !== result.tag && { surrogate_key: result.surrogate_key }),
+    outcome: result.origin.status === 'error' || result.edge.status === 'error' ? 'error' : 'success',
+    origin: result.origin.status,
+    edge: result.edge.status,
+    ...((result.origin.message || result.edge.message) && {
+      message: result.origin.message || result.edge.message,
+    }),
+  }));
+}
+
+/**
+ * Audit targets for batch results (tags and paths).
+ */
+export function toBatchAuditTargets(results: BatchOperationResult[]): AuditTarget[] {
+  return results.map(result => ({
+    key: result.type === 'tag' ? result.tag : result.path,
+    ...(result.type === 'tag' && result.surrogate_key !== result.tag && { surrogate_key: result.surrogate_key }),
+    outcome: result.origin.status === 'error' || result.edge.status === 'error' ? 'error' : 'success',
+    origin: result.origin.status,
+    edge: result.edge.status,
+    ...((result.origin.message || result.edge.message) && {
+      message: result.origin.message || result.edge.message,
+    }),
+  }));
+}
+
+/**
+ * Overall outcome from per-target outcomes.
+ */
+export function summarizeOutcome(targets: AuditTarget[]): AuditOutcome {
+  if (targets.length > 0 && targets.every(target => target.outcome === 'queued')) return 'queued';
+  const failed = targets.filter(target => target.outcome === 'error').length;
+  if (failed === 0) return 'success';
+  return failed === targets.length ? 'error' : 'partial';
+}
+
+/**
+ * Append an invalidation to the audit log. Never throws.
+ */
+export async function recordInvalidation(
+  entry: Omit<AuditRecord, 'id' | 'timestamp' | 'outcome'> & { outcome?: AuditOutcome; startTime?: number }
+): Promise<void> {
+  const { startTime, ...rest } = entry;
+  const timestamp = new Date(startTime ?? Date.now()).toISOString();
+
+  const record: AuditRecord = {
+    id: randomUUID(),
+    timestamp,
+    ...rest,
+    outcome: entry.outcome ?? summarizeOutcome(entry.targets),
+  };
+
+  publishCacheEvent({
+    type: 'revalidation',
+    at: record.timestamp,
+    id: record.id,
+    source: record.source,
+    operation: record.operation,
+    outcome: record.outcome,
+    keys: record.targets.map(target => target.key),
+    requester: record.requester.auth,
+    duration_ms: record.duration_ms,
+  });
+
+  try {
+    await getAuditLogStore().append(record);
+  } catch (error) {
+    console.error(`[AuditLog] Failed to record ${record.operation} from ${record.source}:`, error);
+  }
+
+  void pruneAuditLog();
+}
+
+/**
+ * Delete day partitions past the retention period, at most once per
+ * PRUNE_INTERVAL_MS. Never throws.
+ */
+async function pruneAuditLog(): Promise<void> {
+  const now = Date.now();
+  if (now - lastPruneAt < PRUNE_INTERVAL_MS) {
+    return;
+  }
+  lastPruneAt = now;
+
+  const beforeDay = new Date(now - RETENTION_DAYS * DAY_MS).toISOString().slice(0, 10);
+  try {
+    const deleted = await getAuditLogStore().prune(beforeDay);
+    if (deleted > 0) {
+      console.log(`[AuditLog] Deleted ${deleted} day(s) of records before ${beforeDay}`);
+    }
+  } catch (error) {
+    console.error('[AuditLog] Failed to delete expired records:', error);
+  }
+}
+
+// ============================================================================
+// Querying
+// ============================================================================
+
+/**
+ * Find records matching the query, newest first.
+ * `key` matches any target; `outcome` matches the record or a matching target.
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditQueryResult> {
+  const records = await getAuditLogStore().list(query.from, query.to);
+
+  const matches = records.filter(record => {
+    if (query.source && record.source !== query.source) {
+      return false;
+    }
+
+    const targets = query.key
+      ? record.targets.filter(target => target.key === query.key || target.surrogate_key === query.key)
+      : record.targets;
+
+    if (query.key && targets.length === 0) {
+      return false;
+    }
+
+    if (query.outcome) {
+      return record.outcome === query.outcome || targets.some(target => target.outcome === query.outcome);
+    }
+
+    return true;
+  });
+
+  const truncated = records.length >= MAX_RECORDS_SCANNED;
+  const returned = matches.slice(0, query.limit);
+
+  // Continue before the last record returned when the page is full, or
+  // before the oldest record read when the scan stopped at the cap
+  let nextTo: number | null = null;
+  if (matches.length > query.limit) {
+    nextTo = Date.parse(returned[returned.length - 1].timestamp) - 1;
+  } else if (truncated) {
+    nextTo = Date.parse(records[records.length - 1].timestamp) - 1;
+  }
+  if (nextTo !== null && nextTo < query.from) {
+    nextTo = null;
+  }
+
+  return { records: returned, scanned: records.length, truncated, next_to: nextTo };
+}
@@ -0,0 +1,193 @@
+/**
+ * Batch Revalidation
+ *
+ * Runs a list of tag and path invalidations as one unit for deploy scripts
+ * and CMS integrations:
+ *
+ *   {
+ *     "operations": [
+ *       { "type": "tag", "tag": "post-list", "profile": "max" },
+ *       { "type": "path", "path": "/blogs", "path_type": "page" },
+ *       { "type": "path", "path": "/blogs/[slug]", "path_type": "page", "purge_cdn": false }
+ *     ],
+ *     "purge_cdn": true
+ *   }
+ *
+ * Every operation is validated before any runs. Execution mirrors the
+ * coordinator: all origin invalidations first, then the CDN purges, so the
+ * edge never re-caches content the batch has yet to invalidate.
+ */
+
+import { isCacheLifeProfile } from '../cache-control-policy';
+import {
+  isDynamicPathPattern,
+  purgePathAtEdge,
+  purgeTagsAtEdge,
+  revalidatePathAtOrigin,
+  revalidateTagsAtOrigin,
+  type KeyRevalidationResult,
+  type PathRevalidationResult,
+  type PathType,
+  type RevalidateOptions,
+} from './coordinator';
+
+export interface TagOperation {
+  type: 'tag';
+  tag: string;
+  profile: string;
+  purge_cdn: boolean;
+}
+
+export interface PathOperation {
+  type: 'path';
+  path: string;
+  path_type?: PathType;
+  purge_cdn: boolean;
+}
+
+export type BatchOperation = TagOperation | PathOperation;
+
+export interface BatchValidationError {
+  index: number;
+  error: string;
+}
+
+export type BatchOperationResult =
+  | ({ index: number; type: 'tag'; profile: string } & KeyRevalidationResult)
+  | ({ index: number; type: 'path' } & PathRevalidationResult);
+
+// Limits enforced by revalidateTag() / revalidatePath()
+const TAG_MAX_LENGTH = 256;
+const PATH_MAX_LENGTH = 1024;
+
+export const MAX_BATCH_OPERATIONS = 100;
+
+const PATH_TYPES: PathType[] = ['page', 'layout'];
+
+function validateOperation(
+  raw: unknown,
+  index: number,
+  defaultPurge: boolean
+): BatchOperation | BatchValidationError {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { index, error: 'Operation must be an object' };
+  }
+
+  const operation = raw as Record<string, unknown>;
+  const purge = operation.purge_cdn ?? defaultPurge;
+
+  if (typeof purge !== 'boolean') {
+    return { index, error: 'purge_cdn must be a boolean' };
+  }
+
+  if (operation.type === 'tag') {
+    const { tag, profile = 'max' } = operation;
+
+    if (typeof tag !== 'string' || tag.length === 0 || tag.length > TAG_MAX_LENGTH) {
+      return { index, error: `tag must be a non-empty string of at most ${TAG_MAX_LENGTH} characters` };
+    }
+    if (typeof profile !== 'string' || !isCacheLifeProfile(profile)) {
+      return { index, error: `Unknown cacheLife profile: ${String(profile)}` };
+    }
+
+    return { type: 'tag', tag, profile, purge_cdn: purge };
+  }
+
+  if (operation.type === 'path') {
+    const { path, path_type } = operation;
+
+    if (typeof path !== 'string' || !path.startsWith('/') || path.length > PATH_MAX_LENGTH) {
+      return { index, error: `path must start with '/' and be at most ${PATH_MAX_LENGTH} characters` };
+    }
+    if (path_type !== undefined && !PATH_TYPES.includes(path_type as PathType)) {
+      return { index, error: `path_type must be one of: ${PATH_TYPES.join(', ')}` };
+    }
+    // revalidatePath() silently does nothing for a route pattern without a type
+    if (path_type === undefined && isDynamicPathPattern(path)) {
+      return { index, error: `path_type is required for route pattern ${path}` };
+    }
+
+    return {
+      type: 'path',
+      path,
+      ...(path_type !== undefined && { path_type: path_type as PathType }),
+      purge_cdn: purge,
+    };
+  }
+
+  return { index, error: "type must be 'tag' or 'path'" };
+}
+
+/**
+ * Validate a batch request body. Either every operation is valid, or nothing
+ * runs and all errors are returned.
+ */
+export function validateBatch(
+  body: unknown
+): { ok: true; operations: BatchOperation[] } | { ok: false; errors: BatchValidationError[] } {
+  const request = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  const { operations, purge_cdn = true } = request;
+
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return { ok: false, errors: [{ index: -1, error: 'operations must be a non-empty array' }] };
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    return { ok: false, errors: [{ index: -1, error: `At most ${MAX_BATCH_OPERATIONS} operations per batch` }] };
+  }
+  if (typeof purge_cdn !== 'boolean') {
+    return { ok: false, errors: [{ index: -1, error: 'purge_cdn must be a boolean' }] };
+  }
+
+  const validated = operations.map((operation, index) => validateOperation(operation, index, purge_cdn));
+  const errors = validated.filter((result): result is BatchValidationError => 'error' in result);
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, operations: validated as BatchOperation[] };
+}
+
+/**
+ * Run validated operations: origin for all, then CDN purges.
+ * Pass `outsideRequest: true` when not handling a request (e.g. a scheduled job).
+ */
+export async function runBatch(
+  operations: BatchOperation[],
+  options: Pick<RevalidateOptions, 'outsideRequest'> = {}
+): Promise<BatchOperationResult[]> {
+  const { outsideRequest = false } = options;
+  const results: BatchOperationResult[] = [];
+
+  // 1. Origin, in request order
+  for (const [index, operation] of operations.entries()) {
+    if (operation.type === 'tag') {
+      const [result] = await revalidateTagsAtOrigin([operation.tag], { outsideRequest, profile: operation.profile });
+      results.push({ index, type: 'tag', profile: operation.profile, ...result });
+    } else {
+      const result = await revalidatePathAtOrigin(operation.path, operation.path_type, { outsideRequest });
+      results.push({ index, type: 'path', ...result });
+    }
+  }
+
+  // 2. Edge
+  const tagResults = results.filter(
+    (result): result is Extract<BatchOperationResult, { type: 'tag' }> =>
+      result.type === 'tag' && operations[result.index].purge_cdn
+  );
+  const pathResults = results.filter(
+    (result): result is Extract<BatchOperationResult, { type: 'path' }> =>
+      result.type === 'path' && operations[result.index].purge_cdn
+  );
+
+  await Promise.all([
+    purgeTagsAtEdge(tagResults),
+    ...pathResults.map(result => purgePathAtEdge(result)),
+  ]);
+
+  for (const result of results) {
+    if (!operations[result.index].purge_cdn && result.origin.status === 'success') {
+      result.edge.message = 'CDN purge not requested';
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,327 @@
+/**
+ * Revalidation Coordinator
+ *
+ * Invalidates content (tags or paths) at both cache layers in one operation:
+ *
+ * 1. Origin: invalidate each cache tag on the registered cache handlers (see
+ *    cache-handler-registry.mjs), so the next request to the origin
+ *    regenerates the content. revalidateTag() is called as well for Next.js'
+ *    own bookkeeping, but it only takes effect after the response is sent.
+ *    Each tag is therefore invalidated twice at the origin: the replay
+ *    deletes entries regenerated in between again and costs one more tag
+ *    manifest write, which is accepted to keep the layers ordered.
+ * 2. Edge:   purge the matching surrogate keys through OUTBOUND_PROXY_ENDPOINT,
+ *    so the CDN fetches that fresh content. Hard purges delete the objects;
+ *    soft purges (`purgeMode: 'soft'`) mark them stale so the CDN keeps
+ *    serving them while it refetches
+ *
+ * The order matters: purging the edge first would let the CDN re-cache the
+ * stale origin entry. For the same reason a key whose origin revalidation
+ * failed is not purged at the edge.
+ *
+ * The tags are marked as coordinated first, so the cache handlers do not
+ * also purge their surrogate keys (or the paths of the pages carrying them)
+ * in the background: the purge made here, in the requested mode, is the only
+ * one the edge receives for them. Purges the handlers still make (tags
+ * invalidated outside the coordinator) go through the outbound proxy client
+ * registered here.
+ *
+ * Outside a request (e.g. a timer flushing the purge queue) pass
+ * `outsideRequest: true`: revalidateTag() needs the request work store, so
+ * only the handler-level invalidation runs.
+ */
+
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { markCoordinatedTags, registerEdgePurger } from '../../cache-handler-registry.mjs';
+import { resolveSurrogateKey, toSurrogateKey } from '../surrogate-keys/policy';
+import {
+  getOutboundProxyEndpoint,
+  purgePath,
+  purgePaths,
+  purgeSurrogateKeys,
+  type EdgePurgeResult,
+  type PurgeMode,
+} from '../cdn/outbound-proxy';
+
+interface RegisteredCacheHandlers {
+  cacheHandler?: { revalidateTag(tags: string | string[]): Promise<void> };
+  cacheHandlers?: { updateTags(tags: string[]): Promise<void> };
+}
+
+const CACHE_HANDLERS_SYMBOL = Symbol.for('@nextjs-cache-test-app/cache-handlers');
+
+// Used by the cache handlers for tags invalidated outside the coordinator
+registerEdgePurger({
+  purgeTags: (tags: string[]) => purgeSurrogateKeys(tags.map(tag => toSurrogateKey(tag))),
+  purgePaths: (paths: string[]) => purgePaths(paths),
+});
+
+export type LayerStatus = 'success' | 'error' | 'skipped';
+
+export interface KeyRevalidationResult {
+  /** Key as received (may be a hashed sk-... key) */
+  key: string;
+  /** Cache tag revalidated at the origin */
+  tag: string;
+  /** Key purged at the edge */
+  surrogate_key: string;
+  origin: { status: LayerStatus; message?: string };
+  edge: {
+    status: LayerStatus;
+    /** Purge mode used, when a purge was attempted */
+    mode?: PurgeMode;
+    http_status?: number;
+    duration_ms?: number;
+    attempts?: number;
+    message?: string;
+  };
+}
+
+export interface RevalidationReport {
+  results: KeyRevalidationResult[];
+  /** True if every key succeeded at the origin and was purged (or skipped) at the edge */
+  success: boolean;
+  edge_configured: boolean;
+  duration_ms: number;
+}
+
+export interface RevalidateOptions {
+  /** Skip revalidateTag() (no request work store available) */
+  outsideRequest?: boolean;
+  /** cacheLife profile passed to revalidateTag() (default 'max') */
+  profile?: string;
+  /** Purge at the edge after the origin (default true) */
+  purgeEdge?: boolean;
+  /** 'hard' deletes at the edge (default); 'soft' marks stale */
+  purgeMode?: PurgeMode;
+  /** Purge surrogate keys at the edge; defaults to purgeSurrogateKeys() */
+  purge?: (surrogateKeys: string[], mode: PurgeMode) => Promise<EdgePurgeResult[]>;
+}
+
+export type PathType = 'page' | 'layout';
+
+export interface PathRevalidationResult {
+  path: string;
+  path_type?: PathType;
+  /** Implicit tags invalidated for the path */
+  tags: string[];
+  origin: { status: LayerStatus; message?: string };
+  edge: KeyRevalidationResult['edge'];
+}
+
+// Prefix of the implicit tags Next.js derives from route paths
+const IMPLICIT_TAG_PREFIX = '_N_T_';
+
+function toEdgeStatus(purgeResult: EdgePurgeResult | undefined): KeyRevalidationResult['edge'] {
+  if (!purgeResult) {
+    return { status: 'error', message: 'No purge result' };
+  }
+
+  return {
+    status: purgeResult.success ? 'success' : 'error',
+    mode: purgeResult.mode,
+    http_status: purgeResult.status,
+    duration_ms: purgeResult.duration_ms,
+    ...(purgeResult.attempts > 1 && { attempts: purgeResult.attempts }),
+    ...(purgeResult.error && { message: purgeResult.error }),
+  };
+}
+
+/**
+ * Invalidate tags on the registered cache handlers and wait until both cache
+ * layers applied it.
+ */
+async function invalidateHandlerTags(tags: string[]): Promise<void> {
+  const handlers = (globalThis as typeof globalThis & {
+    [CACHE_HANDLERS_SYMBOL]?: RegisteredCacheHandlers;
+  })[CACHE_HANDLERS_SYMBOL];
+
+  await Promise.all([
+    handlers?.cacheHandler?.revalidateTag(tags),
+    handlers?.cacheHandlers?.updateTags(tags),
+  ]);
+}
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * Phase 1 for tags: invalidate the keys at the origin, one tag at a time
+ * (handlers rewrite a shared tags manifest). Edge results start as skipped.
+ */
+export async function revalidateTagsAtOrigin(
+  keys: string[],
+  options: Pick<RevalidateOptions, 'outsideRequest' | 'profile'> = {}
+): Promise<KeyRevalidationResult[]> {
+  const { outsideRequest = false, profile = 'max' } = options;
+  const results: KeyRevalidationResult[] = [];
+
+  for (const key of new Set(keys)) {
+    const tag = resolveSurrogateKey(key);
+    const surrogateKey = toSurrogateKey(tag);
+
+    try {
+      markCoordinatedTags([tag]);
+      if (!outsideRequest) {
+        revalidateTag(tag, profile);
+      }
+      await invalidateHandlerTags([tag]);
+      results.push({ key, tag, surrogate_key: surrogateKey, origin: { status: 'success' }, edge: { status: 'skipped' } });
+      console.log(`[Revalidate] ✓ Revalidated: ${tag}${tag !== key ? ` (from ${key})` : ''}`);
+    } catch (error) {
+      results.push({
+        key,
+        tag,
+        surrogate_key: surrogateKey,
+        origin: { status: 'error', message: String(error) },
+        edge: { status: 'skipped', message: 'Origin revalidation failed' },
+      });
+      console.error(`[Revalidate] ✗ Failed to revalidate ${key}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Phase 2 for tags: purge the surrogate keys the origin accepted.
+ * Updates the edge status of each result in place.
+ */
+export async function purgeTagsAtEdge(
+  results: KeyRevalidationResult[],
+  purge: RevalidateOptions['purge'] = (surrogateKeys, mode) => purgeSurrogateKeys(surrogateKeys, { mode }),
+  mode: PurgeMode = 'hard'
+): Promise<void> {
+  if (!getOutboundProxyEndpoint()) {
+    for (const result of results) {
+      if (result.origin.status === 'success') {
+        result.edge.message = 'OUTBOUND_PROXY_ENDPOINT not configured';
+      }
+    }
+    return;
+  }
+
+  const accepted = results.filter(result => result.origin.status === 'success');
+  const purges = await purge(accepted.map(result => result.surrogate_key), mode);
+
+  for (const result of accepted) {
+    result.edge = toEdgeStatus(purges.find(candidate => candidate.key === result.surrogate_key));
+  }
+}
+
+/**
+ * Revalidate the given keys at the origin, then purge them at the edge.
+ */
+export async function revalidateAndPurge(
+  keys: string[],
+  options: RevalidateOptions = {}
+): Promise<RevalidationReport> {
+  const { purgeEdge = true, purge, purgeMode } = options;
+  const startTime = Date.now();
+
+  const results = await revalidateTagsAtOrigin(keys, options);
+
+  if (purgeEdge) {
+    await purgeTagsAtEdge(results, purge, purgeMode);
+  } else {
+    for (const result of results) {
+      if (result.origin.status === 'success') {
+        result.edge.message = 'CDN purge not requested';
+      }
+    }
+  }
+
+  const success = results.every(
+    result => result.origin.status === 'success' && result.edge.status !== 'error'
+  );
+
+  return {
+    results,
+    success,
+    edge_configured: !!getOutboundProxyEndpoint(),
+    duration_ms: Date.now() - startTime,
+  };
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * Implicit tags for a path, as derived by revalidatePath().
+ */
+export function getPathTags(path: string, type?: PathType): string[] {
+  let tag = `${IMPLICIT_TAG_PREFIX}${path || '/'}`;
+  if (type) {
+    tag += `${tag.endsWith('/') ? '' : '/'}${type}`;
+  }
+
+  const tags = [tag];
+  if (tag === `${IMPLICIT_TAG_PREFIX}/`) {
+    tags.push(`${IMPLICIT_TAG_PREFIX}/index`);
+  } else if (tag === `${IMPLICIT_TAG_PREFIX}/index`) {
+    tags.push(`${IMPLICIT_TAG_PREFIX}/`);
+  }
+
+  return tags;
+}
+
+/**
+ * Whether a path is a route pattern (e.g. /blogs/[slug]) rather than a URL.
+ */
+export function isDynamicPathPattern(path: string): boolean {
+  return /\[[^\]]+\]/.test(path);
+}
+
+/**
+ * Phase 1 for paths: revalidatePath() plus the same invalidation applied
+ * directly on the cache handlers.
+ */
+export async function revalidatePathAtOrigin(
+  path: string,
+  type?: PathType,
+  options: Pick<RevalidateOptions, 'outsideRequest'> = {}
+): Promise<PathRevalidationResult> {
+  const tags = getPathTags(path, type);
+
+  try {
+    // The path is purged at the edge by purgePathAtEdge(), not the handlers
+    markCoordinatedTags(tags);
+    if (!options.outsideRequest) {
+      revalidatePath(path, type);
+    }
+    await invalidateHandlerTags(tags);
+    console.log(`[Revalidate] ✓ Revalidated path: ${path}${type ? ` (${type})` : ''}`);
+    return { path, ...(type && { path_type: type }), tags, origin: { status: 'success' }, edge: { status: 'skipped' } };
+  } catch (error) {
+    console.error(`[Revalidate] ✗ Failed to revalidate path ${path}:`, error);
+    return {
+      path,
+      ...(type && { path_type: type }),
+      tags,
+      origin: { status: 'error', message: String(error) },
+      edge: { status: 'skipped', message: 'Origin revalidation failed' },
+    };
+  }
+}
+
+/**
+ * Phase 2 for paths: purge the URL at the edge. Route patterns are skipped
+ * (the CDN only knows concrete URLs; purge their surrogate keys instead).
+ */
+export async function purgePathAtEdge(result: PathRevalidationResult, mode: PurgeMode = 'hard'): Promise<void> {
+  if (result.origin.status !== 'success') {
+    return;
+  }
+  if (!getOutboundProxyEndpoint()) {
+    result.edge = { status: 'skipped', message: 'OUTBOUND_PROXY_ENDPOINT not configured' };
+    return;
+  }
+  if (isDynamicPathPattern(result.path)) {
+    result.edge = { status: 'skipped', message: 'Route patterns cannot be purged at the CDN; purge their surrogate keys' };
+    return;
+  }
+
+  result.edge = toEdgeStatus(await purgePath(result.path, { mode }));
+}
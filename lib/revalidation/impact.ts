@@ -0,0 +1,245 @@
+/**
+ * Invalidation Impact Preview (dry run)
+ *
+ * Answers "what would invalidating this tag or path hit?" without touching
+ * any cache:
+ *
+ * - Cache entries: from getSharedCacheStats() (cacheHandler: ISR, routes,
+ *   fetch) and getUseCacheStats() (cacheHandlers: 'use cache'), matched on
+ *   their tags
+ * - URLs: from the URL tag registry filled by server.ts, matched on the tags
+ *   they emitted (tags) or on the route (paths)
+ *
+ * Path invalidations also reach 'use cache' entries through Next.js' implicit
+ * tags, which are not stored on the entries. Those are found through the
+ * cache lookups the matching URLs recorded.
+ *
+ * URLs are only known once this instance has served them, so the URL list
+ * is a lower bound of what the CDN holds.
+ */
+
+import { getSharedCacheStats, getUseCacheStats } from '@pantheon-systems/nextjs-cache-handler';
+import { resolveSurrogateKey, toSurrogateKey } from '../surrogate-keys/policy';
+import { getRecordedUrls, type UrlTagRecord } from '../surrogate-keys/url-registry';
+import type { CacheLookup } from '../request-context';
+import { getPathTags, isDynamicPathPattern, type PathType } from './coordinator';
+
+export type CacheLayer = CacheLookup['layer'];
+
+export type ImpactTarget =
+  | { type: 'tag'; tag: string }
+  | { type: 'path'; path: string; path_type?: PathType };
+
+export interface ImpactedEntry {
+  layer: CacheLayer;
+  key: string;
+  /** Entry kind reported by the handler (fetch, route, use-cache) */
+  kind: string;
+  /** Invalidated tags found on the entry */
+  matched_tags: string[];
+  /** Set when the entry was matched through a URL's cache lookups */
+  read_by?: string[];
+  last_modified?: string;
+}
+
+export interface ImpactedUrl {
+  url: string;
+  /** Invalidated tags the URL emitted, or the path that matched it */
+  matched: string[];
+  last_seen: string;
+}
+
+export interface TargetImpact {
+  target: ImpactTarget;
+  /** Tags that would be invalidated at the origin */
+  tags: string[];
+  /** Key (tag) or path that would be purged at the CDN, if any */
+  cdn_purge: string | null;
+  entries: number;
+  urls: number;
+}
+
+export interface InvalidationImpact {
+  dry_run: true;
+  targets: TargetImpact[];
+  entries: ImpactedEntry[];
+  urls: ImpactedUrl[];
+  summary: {
+    entries: number;
+    entries_by_layer: Record<CacheLayer, number>;
+    urls: number;
+    /** URLs this instance has served (the universe URLs are matched against) */
+    urls_known: number;
+  };
+}
+
+interface StatsEntry {
+  layer: CacheLayer;
+  key: string;
+  kind: string;
+  tags: string[];
+  lastModified?: number | string;
+}
+
+async function loadCacheEntries(): Promise<StatsEntry[]> {
+  const [legacyStats, useCacheStats] = await Promise.all([
+    getSharedCacheStats(),
+    getUseCacheStats(),
+  ]);
+
+  return [
+    ...legacyStats.entries.map(entry => ({ layer: 'cacheHandler' as const, kind: entry.type, ...entry })),
+    ...useCacheStats.entries.map(entry => ({ layer: 'cacheHandlers' as const, kind: entry.type, ...entry })),
+  ];
+}
+
+function toIsoString(value: number | string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function trimTrailingSlash(path: string): string {
+  return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * Match a URL against a path as revalidatePath() would: the exact URL for
+ * pages, the URL and everything below it for layouts. Route patterns
+ * ([param], [...param], [[...param]]) match any value.
+ */
+function matchesPath(url: string, path: string, type?: PathType): boolean {
+  const normalizedUrl = trimTrailingSlash(url);
+  const normalizedPath = trimTrailingSlash(path) === '/index' ? '/' : trimTrailingSlash(path);
+
+  const pattern = normalizedPath
+    .split('/')
+    .map(segment => {
+      if (/^\[\[\.\.\.[^\]]+\]\]$/.test(segment)) return '.*';
+      if (/^\[\.\.\.[^\]]+\]$/.test(segment)) return '.+';
+      if (/^\[[^\]]+\]$/.test(segment)) return '[^/]+';
+      return escapeRegExp(segment);
+    })
+    .join('/');
+
+  const base = normalizedPath === '/' ? '' : pattern;
+  const regex = type === 'layout'
+    ? new RegExp(`^${base}(/.*)?$`)
+    : new RegExp(`^${base || '/'}$`);
+
+  return regex.test(normalizedUrl);
+}
+
+/**
+ * Preview an invalidation of the given tags and paths. Nothing is invalidated.
+ */
+export async function previewInvalidation(targets: ImpactTarget[]): Promise<InvalidationImpact> {
+  const cacheEntries = await loadCacheEntries();
+  const recordedUrls = getRecordedUrls();
+
+  const entries = new Map<string, ImpactedEntry>();
+  const urls = new Map<string, ImpactedUrl>();
+
+  const addEntry = (entry: StatsEntry, matchedTags: string[], readBy?: string): string => {
+    const id = `${entry.layer}:${entry.key}`;
+    const existing = entries.get(id) ?? {
+      layer: entry.layer,
+      key: entry.key,
+      kind: entry.kind,
+      matched_tags: [],
+      ...(toIsoString(entry.lastModified) && { last_modified: toIsoString(entry.lastModified) }),
+    };
+
+    existing.matched_tags = [...new Set([...existing.matched_tags, ...matchedTags])];
+    if (readBy) {
+      existing.read_by = [...new Set([...(existing.read_by ?? []), readBy])];
+    }
+    entries.set(id, existing);
+    return id;
+  };
+
+  const addUrl = (record: UrlTagRecord, matched: string[]) => {
+    const existing = urls.get(record.url) ?? {
+      url: record.url,
+      matched: [],
+      last_seen: new Date(record.lastSeen).toISOString(),
+    };
+    existing.matched = [...new Set([...existing.matched, ...matched])];
+    urls.set(record.url, existing);
+  };
+
+  const targetImpacts = targets.map((target): TargetImpact => {
+    const tags = target.type === 'tag'
+      ? [resolveSurrogateKey(target.tag)]
+      : getPathTags(target.path, target.path_type);
+    const tagSet = new Set(tags);
+
+    const targetEntries = new Set<string>();
+
+    // Entries carrying one of the tags (explicit tags, or implicit path tags on ISR entries)
+    for (const entry of cacheEntries.filter(candidate => candidate.tags.some(tag => tagSet.has(tag)))) {
+      targetEntries.add(addEntry(entry, entry.tags.filter(tag => tagSet.has(tag))));
+    }
+
+    const matchedUrls = target.type === 'tag'
+      ? recordedUrls.filter(record => record.tags.some(tag => tagSet.has(tag)))
+      : recordedUrls.filter(record => matchesPath(record.url, target.path, target.path_type));
+
+    for (const record of matchedUrls) {
+      addUrl(record, target.type === 'tag' ? record.tags.filter(tag => tagSet.has(tag)) : [target.path]);
+    }
+
+    // Entries read while rendering the matched routes see the path's implicit tags
+    if (target.type === 'path') {
+      for (const record of matchedUrls) {
+        for (const lookup of record.lookups) {
+          const entry = cacheEntries.find(candidate => candidate.layer === lookup.layer && candidate.key === lookup.key);
+          if (entry) {
+            targetEntries.add(addEntry(entry, [], record.url));
+          }
+        }
+      }
+    }
+
+    const cdnPurge = target.type === 'tag'
+      ? toSurrogateKey(tags[0])
+      : isDynamicPathPattern(target.path) ? null : target.path;
+
+    return {
+      target,
+      tags,
+      cdn_purge: cdnPurge,
+      entries: targetEntries.size,
+      urls: matchedUrls.length,
+    };
+  });
+
+  const impactedEntries = [...entries.values()];
+
+  return {
+    dry_run: true,
+    targets: targetImpacts,
+    entries: impactedEntries,
+    urls: [...urls.values()],
+    summary: {
+      entries: impactedEntries.length,
+      entries_by_layer: {
+        cacheHandler: impactedEntries.filter(entry => entry.layer === 'cacheHandler').length,
+        cacheHandlers: impactedEntries.filter(entry => entry.layer === 'cacheHandlers').length,
+      },
+      urls: urls.size,
+      urls_known: recordedUrls.length,
+    },
+  };
+}
+
+/**
+ * Whether a request asked for a dry run (`?dry_run=true` or `"dry_run": true`).
+ */
+export function isDryRunRequested(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
+}
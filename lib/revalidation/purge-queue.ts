@@ -0,0 +1,385 @@
+/**
+ * Revalidation Purge Queue
+ *
+ * Absorbs webhook bursts (e.g. a WordPress bulk edit firing dozens of
+ * webhooks per second) before they reach the cache handlers and the CDN:
+ *
+ * - Keys are deduplicated while they wait in the queue
+ * - The queue flushes once no new keys arrived for PURGE_QUEUE_DEBOUNCE_MS,
+ *   or PURGE_QUEUE_MAX_WAIT_MS after the first key, whichever comes first
+ * - A flush invalidates the origin, then purges the CDN in batches of
+ *   PURGE_QUEUE_BATCH_SIZE keys, at most PURGE_QUEUE_MAX_PURGES_PER_SECOND
+ *   requests per second toward the outbound proxy
+ * - Each key keeps the purge mode it was queued with; if it is queued again
+ *   with a different mode while pending, a hard purge wins (a takedown must
+ *   not be downgraded to a soft purge)
+ *
+ * Flushes run from a timer, outside any request, so the coordinator is used
+ * in `outsideRequest` mode. Pending flushes are registered as background
+ * tasks so a SIGTERM drain waits for them.
+ *
+ * State lives on globalThis so /api/revalidate and /api/revalidate-queue
+ * (bundled separately) share the same queue.
+ */
+
+import { purgeSurrogateKey, type EdgePurgeResult, type PurgeMode } from '../cdn/outbound-proxy';
+import { resolveSurrogateKey, toSurrogateKey } from '../surrogate-keys/policy';
+import { startBackgroundTask } from '../server-lifecycle';
+import { revalidateAndPurge, type KeyRevalidationResult } from './coordinator';
+import { recordInvalidation, toAuditTargets } from './audit-log';
+
+export interface PendingKey {
+  key: string;
+  firstQueuedAt: number;
+  lastQueuedAt: number;
+  /** Times the key was requested while pending */
+  requests: number;
+  sources: string[];
+  mode: PurgeMode;
+}
+
+export interface FlushRecord {
+  id: number;
+  startedAt: string;
+  durationMs: number;
+  keys: number;
+  /** Requests absorbed by deduplication for this flush */
+  deduplicated: number;
+  batches: number;
+  success: boolean;
+  results: KeyRevalidationResult[];
+}
+
+export interface EnqueueResult {
+  queued: string[];
+  deduplicated: string[];
+  pending: number;
+  flushInMs: number;
+}
+
+interface QueueState {
+  pending: Map<string, PendingKey>;
+  windowStartedAt: number | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  flushAt: number | null;
+  flushing: Promise<void> | null;
+  task: { finish(): void } | null;
+  nextFlushId: number;
+  nextPurgeSlotAt: number;
+  history: FlushRecord[];
+  totals: {
+    requested: number;
+    deduplicated: number;
+    flushes: number;
+    keysFlushed: number;
+    edgePurges: number;
+    edgeFailures: number;
+  };
+}
+
+const PURGE_QUEUE_SYMBOL = Symbol.for('@nextjs-cache-test-app/purge-queue');
+
+const FLUSH_HISTORY_LIMIT = 20;
+
+function readNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const DEBOUNCE_MS = readNonNegativeInt(process.env.PURGE_QUEUE_DEBOUNCE_MS, 1000);
+const MAX_WAIT_MS = Math.max(DEBOUNCE_MS, readNonNegativeInt(process.env.PURGE_QUEUE_MAX_WAIT_MS, 5000));
+const BATCH_SIZE = Math.max(1, readNonNegativeInt(process.env.PURGE_QUEUE_BATCH_SIZE, 50));
+const MAX_PURGES_PER_SECOND = Math.max(1, readNonNegativeInt(process.env.PURGE_QUEUE_MAX_PURGES_PER_SECOND, 10));
+
+function getState(): QueueState {
+  const registry = globalThis as typeof globalThis & {
+    [PURGE_QUEUE_SYMBOL]?: QueueState;
+  };
+
+  if (!registry[PURGE_QUEUE_SYMBOL]) {
+    registry[PURGE_QUEUE_SYMBOL] = {
+      pending: new Map(),
+      windowStartedAt: null,
+      timer: null,
+      flushAt: null,
+      flushing: null,
+      task: null,
+      nextFlushId: 1,
+      nextPurgeSlotAt: 0,
+      history: [],
+      totals: {
+        requested: 0,
+        deduplicated: 0,
+        flushes: 0,
+        keysFlushed: 0,
+        edgePurges: 0,
+        edgeFailures: 0,
+      },
+    };
+  }
+
+  return registry[PURGE_QUEUE_SYMBOL];
+}
+
+/**
+ * Whether revalidations should go through the queue.
+ * PURGE_QUEUE_DEBOUNCE_MS=0 disables it (revalidate synchronously).
+ */
+export function isPurgeQueueEnabled(): boolean {
+  return DEBOUNCE_MS > 0;
+}
+
+// ============================================================================
+// Rate limiting
+// ============================================================================
+
+/**
+ * Wait for the next purge slot, spacing requests to the proxy evenly at
+ * MAX_PURGES_PER_SECOND.
+ */
+async function acquirePurgeSlot(state: QueueState): Promise<void> {
+  const now = Date.now();
+  const slotAt = Math.max(now, state.nextPurgeSlotAt);
+  state.nextPurgeSlotAt = slotAt + 1000 / MAX_PURGES_PER_SECOND;
+
+  if (slotAt > now) {
+    await new Promise(resolve => setTimeout(resolve, slotAt - now));
+  }
+}
+
+/**
+ * Purge keys in batches; each batch runs in parallel within the rate limit.
+ */
+async function purgeInBatches(
+  state: QueueState,
+  surrogateKeys: string[],
+  modeOf: (surrogateKey: string) => PurgeMode
+): Promise<EdgePurgeResult[]> {
+  const results: EdgePurgeResult[] = [];
+
+  for (let i = 0; i < surrogateKeys.length; i += BATCH_SIZE) {
+    const batch = surrogateKeys.slice(i, i + BATCH_SIZE);
+
+    const batchResults = await Promise.all(
+      batch.map(async key => {
+        await acquirePurgeSlot(state);
+        return purgeSurrogateKey(key, { mode: modeOf(key) });
+      })
+    );
+    results.push(...batchResults);
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Flushing
+// ============================================================================
+
+function scheduleFlush(state: QueueState): void {
+  const now = Date.now();
+  const windowStartedAt = state.windowStartedAt ?? now;
+  const delay = Math.max(0, Math.min(DEBOUNCE_MS, windowStartedAt + MAX_WAIT_MS - now));
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+  }
+
+  state.flushAt = now + delay;
+  state.timer = setTimeout(() => {
+    void flushPurgeQueue();
+  }, delay);
+}
+
+/**
+ * Flush all pending keys now. Concurrent calls wait for the flush in progress
+ * and then flush whatever was queued meanwhile.
+ */
+export async function flushPurgeQueue(): Promise<FlushRecord | null> {
+  const state = getState();
+
+  // Keys that arrive during a flush wait for the next one
+  while (state.flushing) {
+    await state.flushing;
+  }
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+  state.flushAt = null;
+
+  if (state.pending.size === 0) {
+    return null;
+  }
+
+  const pending = [...state.pending.values()];
+  const task = state.task;
+  state.pending = new Map();
+  state.windowStartedAt = null;
+  state.task = null;
+
+  const startTime = Date.now();
+  const keys = pending.map(entry => entry.key);
+  const softKeys = new Set(
+    pending
+      .filter(entry => entry.mode === 'soft')
+      .map(entry => toSurrogateKey(resolveSurrogateKey(entry.key)))
+  );
+  const deduplicated = pending.reduce((sum, entry) => sum + entry.requests - 1, 0);
+
+  console.log(`[PurgeQueue] Flushing ${keys.length} keys (${deduplicated} duplicate requests absorbed)`);
+
+  let record: FlushRecord | null = null;
+
+  // Never rejects, so callers waiting on state.flushing are not affected
+  const flushing = (async () => {
+    try {
+      const report = await revalidateAndPurge(keys, {
+        outsideRequest: true,
+        purge: surrogateKeys => purgeInBatches(state, surrogateKeys, key => softKeys.has(key) ? 'soft' : 'hard'),
+      });
+
+      const purged = report.results.filter(result => result.edge.status === 'success').length;
+      const failed = report.results.filter(result => result.edge.status === 'error').length;
+
+      const flushRecord: FlushRecord = {
+        id: state.nextFlushId++,
+        startedAt: new Date(startTime).toISOString(),
+        durationMs: Date.now() - startTime,
+        keys: keys.length,
+        deduplicated,
+        batches: Math.ceil(keys.length / BATCH_SIZE),
+        success: report.success,
+        results: report.results,
+      };
+
+      state.totals.flushes++;
+      state.totals.keysFlushed += keys.length;
+      state.totals.edgePurges += purged;
+      state.totals.edgeFailures += failed;
+
+      state.history.unshift(flushRecord);
+      state.history.length = Math.min(state.history.length, FLUSH_HISTORY_LIMIT);
+
+      await recordInvalidation({
+        source: 'purge-queue',
+        operation: 'tag',
+        requester: { ip: 'internal' },
+        startTime,
+        duration_ms: flushRecord.durationMs,
+        targets: toAuditTargets(report.results),
+        details: {
+          flush_id: flushRecord.id,
+          deduplicated,
+          requested_by: Object.fromEntries(pending.map(entry => [entry.key, entry.sources])),
+          ...(softKeys.size > 0 && { soft_purged: [...softKeys] }),
+        },
+      });
+
+      console.log(`[PurgeQueue] Flush #${flushRecord.id} done in ${flushRecord.durationMs}ms: ${purged} purged, ${failed} failed`);
+      record = flushRecord;
+    } catch (error) {
+      console.error('[PurgeQueue] Flush failed:', error);
+    }
+  })();
+
+  state.flushing = flushing;
+  try {
+    await flushing;
+  } finally {
+    state.flushing = null;
+    task?.finish();
+  }
+
+  return record;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Add keys to the queue. Keys already pending are deduplicated.
+ *
+ * @param keys - Surrogate keys or cache tags
+ * @param source - Who requested the revalidation (for the status endpoint)
+ * @param mode - CDN purge mode for the keys
+ */
+export function enqueueRevalidation(keys: string[], source: string, mode: PurgeMode = 'hard'): EnqueueResult {
+  const state = getState();
+  const now = Date.now();
+  const queued: string[] = [];
+  const deduplicated: string[] = [];
+
+  for (const key of keys) {
+    state.totals.requested++;
+
+    const existing = state.pending.get(key);
+    if (existing) {
+      existing.lastQueuedAt = now;
+      existing.requests++;
+      if (!existing.sources.includes(source)) {
+        existing.sources.push(source);
+      }
+      if (mode === 'hard') {
+        existing.mode = 'hard';
+      }
+      deduplicated.push(key);
+      state.totals.deduplicated++;
+      continue;
+    }
+
+    state.pending.set(key, {
+      key,
+      firstQueuedAt: now,
+      lastQueuedAt: now,
+      requests: 1,
+      sources: [source],
+      mode,
+    });
+    queued.push(key);
+  }
+
+  if (state.pending.size > 0) {
+    state.windowStartedAt = state.windowStartedAt ?? now;
+    state.task = state.task ?? startBackgroundTask('purge-queue');
+    scheduleFlush(state);
+  }
+
+  return {
+    queued,
+    deduplicated,
+    pending: state.pending.size,
+    flushInMs: state.flushAt ? Math.max(0, state.flushAt - now) : 0,
+  };
+}
+
+/**
+ * Snapshot of the queue for /api/revalidate-queue.
+ */
+export function getPurgeQueueStatus() {
+  const state = getState();
+  const now = Date.now();
+
+  return {
+    enabled: isPurgeQueueEnabled(),
+    config: {
+      debounce_ms: DEBOUNCE_MS,
+      max_wait_ms: MAX_WAIT_MS,
+      batch_size: BATCH_SIZE,
+      max_purges_per_second: MAX_PURGES_PER_SECOND,
+    },
+    flushing: state.flushing !== null,
+    next_flush_in_ms: state.flushAt ? Math.max(0, state.flushAt - now) : null,
+    pending: [...state.pending.values()].map(entry => ({
+      key: entry.key,
+      requests: entry.requests,
+      sources: entry.sources,
+      mode: entry.mode,
+      queued_at: new Date(entry.firstQueuedAt).toISOString(),
+    })),
+    totals: state.totals,
+    recent_flushes: state.history,
+  };
+}
@@ -0,0 +1,507 @@
+/**
+ * Scheduled Revalidation Jobs
+ *
+ * Runs tag and path invalidations at a later time, e.g. when a WordPress
+ * post scheduled for 9:00 goes live: the blog fetchers cache with
+ * `stale: Infinity`, so nothing else would invalidate post-list then.
+ *
+ * - A job is a batch of operations (same format as /api/revalidate-batch)
+ *   with a `run_at` time
+ * - Jobs are persisted so they survive restarts (picked like the audit log):
+ *     GCS:  gs://<CACHE_BUCKET>/revalidation-jobs/<id>.json
+ *     File: .cache/revalidation-jobs/<id>.json
+ * - server.ts starts the scheduler; it sleeps until the next job is due,
+ *   waking at least every SCHEDULER_POLL_MS to pick up jobs created by other
+ *   instances. Jobs are claimed before they run (a generation-matched write
+ *   on GCS), so only one instance runs each job
+ * - Results are recorded in the revalidation audit log (source 'scheduler')
+ *
+ * Jobs run outside any request, so the coordinator is used in
+ * `outsideRequest` mode, like the purge queue. A running job is registered
+ * as a background task so a SIGTERM drain waits for it.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Storage, Bucket } from '@google-cloud/storage';
+import { startBackgroundTask } from '../server-lifecycle';
+import { recordInvalidation, toBatchAuditTargets, type AuditRecord } from './audit-log';
+import { runBatch, type BatchOperation, type BatchOperationResult } from './batch';
+
+export type JobStatus = 'scheduled' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RevalidationJob {
+  id: string;
+  label?: string;
+  status: JobStatus;
+  created_at: string;
+  run_at: string;
+  requested_by: AuditRecord['requester'];
+  operations: BatchOperation[];
+  started_at?: string;
+  finished_at?: string;
+  /** Instance that claimed the job */
+  claimed_by?: string;
+  results?: BatchOperationResult[];
+  error?: string;
+}
+
+export interface JobStore {
+  readonly type: 'gcs' | 'file';
+  list(): Promise<RevalidationJob[]>;
+  get(id: string): Promise<RevalidationJob | null>;
+  create(job: RevalidationJob): Promise<void>;
+  /**
+   * Apply `update` to the stored job and save it, unless the job changed
+   * concurrently. Returns the saved job, or null if it does not exist, the
+   * update returned null, or another writer won.
+   */
+  update(id: string, update: (job: RevalidationJob) => RevalidationJob | null): Promise<RevalidationJob | null>;
+  delete(id: string): Promise<void>;
+}
+
+interface SchedulerState {
+  started: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  nextWakeAt: number | null;
+  ticking: Promise<void> | null;
+}
+
+const JOBS_PREFIX = 'revalidation-jobs';
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const SCHEDULER_SYMBOL = Symbol.for('@nextjs-cache-test-app/revalidation-scheduler');
+
+// Identifies this process in claimed_by
+const INSTANCE_ID = `${process.env.HOSTNAME || 'local'}:${process.pid}`;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const POLL_MS = readPositiveInt(process.env.SCHEDULER_POLL_MS, 30000);
+// Finished and cancelled jobs are kept this long for listing, then deleted
+const RETENTION_MS = readPositiveInt(process.env.SCHEDULER_RETENTION_HOURS, 7 * 24) * 60 * 60 * 1000;
+// A job left 'running' this long (its instance died mid-run) is run again
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+export const MAX_SCHEDULE_AHEAD_MS = 366 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+class FileJobStore implements JobStore {
+  readonly type = 'file' as const;
+
+  constructor(private readonly directory: string) {}
+
+  private file(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async write(job: RevalidationJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename, so a crash never leaves a truncated job
+    const temporary = `${this.file(job.id)}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(job, null, 2), 'utf8');
+    await fs.rename(temporary, this.file(job.id));
+  }
+
+  async list(): Promise<RevalidationJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const jobs = await Promise.all(
+      files.filter(file => file.endsWith('.json')).map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+    return jobs.filter((job): job is RevalidationJob => job !== null);
+  }
+
+  async get(id: string): Promise<RevalidationJob | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), 'utf8')) as RevalidationJob;
+    } catch {
+      return null;
+    }
+  }
+
+  async create(job: RevalidationJob): Promise<void> {
+    await this.write(job);
+  }
+
+  // Single process per file store, so there is no concurrent writer to detect
+  async update(id: string, update: (job: RevalidationJob) => RevalidationJob | null): Promise<RevalidationJob | null> {
+    const job = await this.get(id);
+    const updated = job && update(job);
+    if (!updated) {
+      return null;
+    }
+    await this.write(updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.file(id), { force: true });
+  }
+}
+
+class GcsJobStore implements JobStore {
+  readonly type = 'gcs' as const;
+
+  constructor(private readonly bucket: Bucket) {}
+
+  async list(): Promise<RevalidationJob[]> {
+    const [files] = await this.bucket.getFiles({ prefix: `${JOBS_PREFIX}/` });
+
+    const jobs = await Promise.all(
+      files.map(async file => {
+        try {
+          const [content] = await file.download();
+          return JSON.parse(content.toString()) as RevalidationJob;
+        } catch (error) {
+          console.error(`[Scheduler] Failed to read ${file.name}:`, error);
+          return null;
+        }
+      })
+    );
+    return jobs.filter((job): job is RevalidationJob => job !== null);
+  }
+
+  async get(id: string): Promise<RevalidationJob | null> {
+    try {
+      const [content] = await this.bucket.file(`${JOBS_PREFIX}/${id}.json`).download();
+      return JSON.parse(content.toString()) as RevalidationJob;
+    } catch {
+      return null;
+    }
+  }
+
+  async create(job: RevalidationJob): Promise<void> {
+    await this.bucket.file(`${JOBS_PREFIX}/${job.id}.json`).save(JSON.stringify(job), {
+      metadata: { contentType: 'application/json' },
+      preconditionOpts: { ifGenerationMatch: 0 },
+    });
+  }
+
+  async update(id: string, update: (job: RevalidationJob) => RevalidationJob | null): Promise<RevalidationJob | null> {
+    const file = this.bucket.file(`${JOBS_PREFIX}/${id}.json`);
+
+    try {
+      // Read the generation first: if the object changes after this, the
+      // conditional write below fails instead of overwriting it
+      const [metadata] = await file.getMetadata();
+      const [content] = await file.download();
+      const updated = update(JSON.parse(content.toString()) as RevalidationJob);
+      if (!updated) {
+        return null;
+      }
+
+      await file.save(JSON.stringify(updated), {
+        metadata: { contentType: 'application/json' },
+        preconditionOpts: { ifGenerationMatch: metadata.generation },
+      });
+      return updated;
+    } catch (error) {
+      // 404: gone; 412: another instance updated it first
+      const code = (error as { code?: number }).code;
+      if (code !== 404 && code !== 412) {
+        console.error(`[Scheduler] Failed to update job ${id}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.bucket.file(`${JOBS_PREFIX}/${id}.json`).delete({ ignoreNotFound: true });
+  }
+}
+
+let store: JobStore | null = null;
+
+/**
+ * Get the job store: GCS when CACHE_BUCKET is set, otherwise file-based.
+ */
+export function getJobStore(): JobStore {
+  if (!store) {
+    const bucketName = process.env.CACHE_BUCKET;
+    store = bucketName
+      ? new GcsJobStore(new Storage().bucket(bucketName))
+      : new FileJobStore(path.join(process.cwd(), '.cache', JOBS_PREFIX));
+  }
+  return store;
+}
+
+// ============================================================================
+// Running jobs
+// ============================================================================
+
+function getState(): SchedulerState {
+  const registry = globalThis as typeof globalThis & {
+    [SCHEDULER_SYMBOL]?: SchedulerState;
+  };
+
+  if (!registry[SCHEDULER_SYMBOL]) {
+    registry[SCHEDULER_SYMBOL] = {
+      started: false,
+      timer: null,
+      nextWakeAt: null,
+      ticking: null,
+    };
+  }
+
+  return registry[SCHEDULER_SYMBOL];
+}
+
+function isDue(job: RevalidationJob, now: number): boolean {
+  if (job.status === 'scheduled') {
+    return Date.parse(job.run_at) <= now;
+  }
+  // Claimed by an instance that never finished it
+  return job.status === 'running' && !!job.started_at && now - Date.parse(job.started_at) > STALE_RUN_MS;
+}
+
+function isExpired(job: RevalidationJob, now: number): boolean {
+  const finishedAt = job.finished_at ? Date.parse(job.finished_at) : NaN;
+  return job.status !== 'scheduled' && job.status !== 'running' && now - finishedAt > RETENTION_MS;
+}
+
+async function runJob(job: RevalidationJob): Promise<void> {
+  const jobStore = getJobStore();
+  const startTime = Date.now();
+
+  const claimed = await jobStore.update(job.id, current => isDue(current, startTime)
+    ? { ...current, status: 'running', started_at: new Date(startTime).toISOString(), claimed_by: INSTANCE_ID }
+    : null);
+
+  if (!claimed) {
+    return;
+  }
+
+  const task = startBackgroundTask(`scheduled-revalidation:${job.id}`);
+  console.log(`[Scheduler] Running job ${job.id}${job.label ? ` (${job.label})` : ''}: ${job.operations.length} operations`);
+
+  try {
+    let results: BatchOperationResult[] = [];
+    let error: string | undefined;
+
+    try {
+      results = await runBatch(claimed.operations, { outsideRequest: true });
+    } catch (runError) {
+      error = String(runError);
+      console.error(`[Scheduler] Job ${job.id} failed:`, runError);
+    }
+
+    const failed = !!error || results.some(
+      result => result.origin.status === 'error' || result.edge.status === 'error'
+    );
+
+    await jobStore.update(job.id, current => ({
+      ...current,
+      status: failed ? 'failed' : 'completed',
+      finished_at: new Date().toISOString(),
+      results,
+      ...(error && { error }),
+    }));
+
+    await recordInvalidation({
+      source: 'scheduler',
+      operation: 'batch',
+      requester: { ip: 'internal' },
+      startTime,
+      duration_ms: Date.now() - startTime,
+      ...(error && { outcome: 'error' as const }),
+      targets: toBatchAuditTargets(results),
+      details: {
+        job_id: job.id,
+        ...(job.label && { label: job.label }),
+        scheduled_for: job.run_at,
+        requested_by: job.requested_by,
+        ...(error && { error }),
+      },
+    });
+
+    console.log(`[Scheduler] Job ${job.id} ${failed ? 'failed' : 'completed'} in ${Date.now() - startTime}ms`);
+  } finally {
+    task.finish();
+  }
+}
+
+/**
+ * Run every due job, delete expired ones, then sleep until the next job
+ * (or the poll interval, whichever is sooner).
+ */
+async function tick(): Promise<void> {
+  const state = getState();
+  const now = Date.now();
+  let jobs: RevalidationJob[] = [];
+
+  try {
+    jobs = await getJobStore().list();
+
+    for (const job of jobs.filter(candidate => isDue(candidate, now))) {
+      await runJob(job);
+    }
+
+    await Promise.all(
+      jobs.filter(job => isExpired(job, now)).map(job => getJobStore().delete(job.id))
+    );
+  } catch (error) {
+    console.error('[Scheduler] Tick failed:', error);
+  }
+
+  if (!state.started) {
+    return;
+  }
+
+  const nextRunAt = jobs
+    .filter(job => job.status === 'scheduled' && Date.parse(job.run_at) > now)
+    .reduce((earliest, job) => Math.min(earliest, Date.parse(job.run_at)), Infinity);
+
+  scheduleTick(Math.min(nextRunAt - Date.now(), POLL_MS));
+}
+
+function scheduleTick(delayMs: number): void {
+  const state = getState();
+  const delay = Math.max(0, delayMs);
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+  }
+
+  state.nextWakeAt = Date.now() + delay;
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    // A tick in progress already reschedules when it ends
+    if (!state.ticking) {
+      state.ticking = tick().finally(() => {
+        state.ticking = null;
+      });
+    }
+  }, delay);
+}
+
+/**
+ * Start running jobs from this process. Called once by server.ts.
+ */
+export function startRevalidationScheduler(): void {
+  const state = getState();
+  if (state.started) {
+    return;
+  }
+
+  state.started = true;
+  console.log(`[Scheduler] Started (${getJobStore().type} store, polling every ${POLL_MS}ms)`);
+  scheduleTick(0);
+}
+
+/**
+ * Stop scheduling new runs (on shutdown). A job already running finishes
+ * as a background task.
+ */
+export function stopRevalidationScheduler(): void {
+  const state = getState();
+  state.started = false;
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+  state.nextWakeAt = null;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Persist a new job. Wakes the scheduler early if the job is due before its
+ * next planned wake-up.
+ */
+export async function scheduleRevalidation(input: {
+  runAt: number;
+  operations: BatchOperation[];
+  requestedBy: AuditRecord['requester'];
+  label?: string;
+}): Promise<RevalidationJob> {
+  const job: RevalidationJob = {
+    id: randomUUID(),
+    ...(input.label && { label: input.label }),
+    status: 'scheduled',
+    created_at: new Date().toISOString(),
+    run_at: new Date(input.runAt).toISOString(),
+    requested_by: input.requestedBy,
+    operations: input.operations,
+  };
+
+  await getJobStore().create(job);
+  console.log(`[Scheduler] Scheduled job ${job.id} for ${job.run_at}`);
+
+  const state = getState();
+  if (state.started && (state.nextWakeAt === null || input.runAt < state.nextWakeAt)) {
+    scheduleTick(input.runAt - Date.now());
+  }
+
+  return job;
+}
+
+/**
+ * Cancel a job that has not started yet.
+ */
+export async function cancelRevalidationJob(
+  id: string
+): Promise<{ ok: true; job: RevalidationJob } | { ok: false; status: 404 | 409; error: string }> {
+  const job = await getRevalidationJob(id);
+  if (!job) {
+    return { ok: false, status: 404, error: `Job ${id} not found` };
+  }
+
+  const cancelled = await getJobStore().update(id, current => current.status === 'scheduled'
+    ? { ...current, status: 'cancelled', finished_at: new Date().toISOString() }
+    : null);
+
+  if (!cancelled) {
+    const current = await getJobStore().get(id);
+    return { ok: false, status: 409, error: `Job ${id} is ${current?.status ?? job.status} and can no longer be cancelled` };
+  }
+
+  console.log(`[Scheduler] Cancelled job ${id}`);
+  return { ok: true, job: cancelled };
+}
+
+/**
+ * Jobs, soonest first, optionally filtered by status.
+ */
+export async function listRevalidationJobs(status?: JobStatus): Promise<RevalidationJob[]> {
+  const jobs = await getJobStore().list();
+  return jobs
+    .filter(job => !status || job.status === status)
+    .sort((a, b) => Date.parse(a.run_at) - Date.parse(b.run_at));
+}
+
+/**
+ * A job by id, or null (also for ids that are not job ids).
+ */
+export async function getRevalidationJob(id: string): Promise<RevalidationJob | null> {
+  return JOB_ID_PATTERN.test(id) ? getJobStore().get(id) : null;
+}
+
+/**
+ * Scheduler state for the jobs endpoint.
+ */
+export function getSchedulerStatus() {
+  const state = getState();
+
+  return {
+    running: state.started,
+    store: getJobStore().type,
+    instance: INSTANCE_ID,
+    poll_ms: POLL_MS,
+    next_wake_at: state.nextWakeAt ? new Date(state.nextWakeAt).toISOString() : null,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Server Lifecycle
+ *
+ * Tracks in-flight responses and background work (e.g. after() callbacks) so
+ * server.ts can drain gracefully on SIGTERM during a Pantheon redeploy:
+ *
+ * 1. Enter drain mode: readiness (/api/ready) starts failing
+ * 2. Stop accepting new connections
+ * 3. Wait for outstanding responses and background tasks, up to a timeout
+ * 4. Report whatever had to be abandoned
+ *
+ * State lives on globalThis under a Symbol.for() key so the bundled route
+ * handlers and server.ts share the same tracker.
+ */
+
+export interface TrackedRequest {
+  method: string;
+  path: string;
+  startTime: number;
+}
+
+export interface TrackedTask {
+  label: string;
+  startTime: number;
+}
+
+export interface DrainReport {
+  /** True if everything finished before the timeout */
+  completed: boolean;
+  durationMs: number;
+  abandonedRequests: TrackedRequest[];
+  abandonedTasks: TrackedTask[];
+}
+
+interface LifecycleState {
+  draining: boolean;
+  drainStartedAt: number | null;
+  nextId: number;
+  requests: Map<number, TrackedRequest>;
+  tasks: Map<number, TrackedTask>;
+}
+
+const LIFECYCLE_SYMBOL = Symbol.for('@nextjs-cache-test-app/server-lifecycle');
+
+const DRAIN_POLL_INTERVAL_MS = 100;
+
+function getState(): LifecycleState {
+  const registry = globalThis as typeof globalThis & {
+    [LIFECYCLE_SYMBOL]?: LifecycleState;
+  };
+
+  if (!registry[LIFECYCLE_SYMBOL]) {
+    registry[LIFECYCLE_SYMBOL] = {
+      draining: false,
+      drainStartedAt: null,
+      nextId: 1,
+      requests: new Map(),
+      tasks: new Map(),
+    };
+  }
+
+  return registry[LIFECYCLE_SYMBOL];
+}
+
+/**
+ * Whether the server is shutting down. Readiness checks fail while draining.
+ */
+export function isDraining(): boolean {
+  return getState().draining;
+}
+
+/**
+ * Snapshot of the lifecycle state for readiness/diagnostics endpoints.
+ */
+export function getLifecycleStatus(): {
+  draining: boolean;
+  drainStartedAt: string | null;
+  inFlightRequests: number;
+  backgroundTasks: number;
+} {
+  const state = getState();
+
+  return {
+    draining: state.draining,
+    drainStartedAt: state.drainStartedAt ? new Date(state.drainStartedAt).toISOString() : null,
+    inFlightRequests: state.requests.size,
+    backgroundTasks: state.tasks.size,
+  };
+}
+
+/**
+ * Track a request until its response is finished or the connection closes.
+ * Called by server.ts for every incoming request.
+ */
+export function trackRequest(
+  request: { method?: string },
+  response: { once(event: 'close', listener: () => void): unknown },
+  path: string
+): void {
+  const state = getState();
+  const id = state.nextId++;
+
+  state.requests.set(id, {
+    method: request.method || 'GET',
+    path,
+    startTime: Date.now(),
+  });
+
+  response.once('close', () => {
+    state.requests.delete(id);
+  });
+}
+
+/**
+ * Register background work that must finish before the process exits.
+ * Call this synchronously while handling the request (before after() is
+ * scheduled) and call finish() when the work settles.
+ *
+ * @example
+ * const task = startBackgroundTask(`after:${taskId}`);
+ * after(async () => {
+ *   try { await doWork(); } finally { task.finish(); }
+ * });
+ */
+export function startBackgroundTask(label: string): { finish(): void } {
+  const state = getState();
+  const id = state.nextId++;
+
+  state.tasks.set(id, { label, startTime: Date.now() });
+
+  return {
+    finish() {
+      state.tasks.delete(id);
+    },
+  };
+}
+
+/**
+ * Enter drain mode and wait for in-flight requests and background tasks.
+ * Resolves with a report of anything still running when the timeout expired.
+ */
+export async function drain(timeoutMs: number): Promise<DrainReport> {
+  const state = getState();
+  const startTime = Date.now();
+
+  state.draining = true;
+  state.drainStartedAt = state.drainStartedAt ?? startTime;
+
+  while (state.requests.size > 0 || state.tasks.size > 0) {
+    if (Date.now() - startTime >= timeoutMs) {
+      return {
+        completed: false,
+        durationMs: Date.now() - startTime,
+        abandonedRequests: [...state.requests.values()],
+        abandonedTasks: [...state.tasks.values()],
+      };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, DRAIN_POLL_INTERVAL_MS));
+  }
+
+  return {
+    completed: true,
+    durationMs: Date.now() - startTime,
+    abandonedRequests: [],
+    abandonedTasks: [],
+  };
+}
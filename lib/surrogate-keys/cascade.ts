@@ -0,0 +1,147 @@
+/**
+ * Tag Cascade Rules
+ *
+ * Declares which cache tags imply others, so invalidating a fine-grained key
+ * also invalidates the pages that aggregate it:
+ *
+ *   { "match": "term-*",   "implies": ["post-list"] }
+ *   { "match": "author-*", "implies": ["post-list"] }
+ *
+ * `*` in `match` matches any run of characters; a `*` in an implied key is
+ * replaced by what it matched (e.g. `{ "match": "author-*", "implies":
+ * ["author-archive-*"] }`). Rules apply transitively and cycles are ignored.
+ *
+ * /api/revalidate expands requested keys through these rules before
+ * revalidating, so editors and webhooks don't need to know the graph.
+ * TAG_CASCADE_RULES (JSON array) replaces the defaults.
+ */
+
+import { resolveSurrogateKey } from './policy';
+
+export interface TagCascadeRule {
+  /** Key pattern, `*` matches any characters */
+  match: string;
+  /** Keys implied by a match; `*` is replaced by the matched part */
+  implies: string[];
+}
+
+export interface CascadedKey {
+  key: string;
+  /** Key whose rule added this one */
+  implied_by: string;
+  /** `match` of the rule that applied */
+  rule: string;
+}
+
+export interface TagCascadeResult {
+  /** Requested keys followed by the implied ones, deduplicated */
+  keys: string[];
+  /** Keys added by the rules, in the order they were added */
+  cascaded: CascadedKey[];
+}
+
+/**
+ * Default rules for the WordPress key scheme in lib/surrogate-keys/wordpress.ts.
+ * Term and author pages are not rendered separately; their posts show up in
+ * the blog index and archives, which are tagged post-list.
+ */
+export const DEFAULT_CASCADE_RULES: TagCascadeRule[] = [
+  { match: 'term-*', implies: ['post-list'] },
+  { match: 'author-*', implies: ['post-list'] },
+];
+
+// Guards against rules generating keys without end (e.g. `*` → `*-x`)
+const MAX_EXPANDED_KEYS = 500;
+
+function isCascadeRule(value: unknown): value is TagCascadeRule {
+  const rule = value as TagCascadeRule;
+  return !!rule
+    && typeof rule.match === 'string'
+    && rule.match.length > 0
+    && Array.isArray(rule.implies)
+    && rule.implies.every(key => typeof key === 'string' && key.length > 0);
+}
+
+/**
+ * Parse TAG_CASCADE_RULES. Invalid configuration is logged and the defaults
+ * are used, so a typo can't disable invalidation.
+ */
+function loadRules(): TagCascadeRule[] {
+  const raw = process.env.TAG_CASCADE_RULES;
+  if (!raw) {
+    return DEFAULT_CASCADE_RULES;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed) && parsed.every(isCascadeRule)) {
+      return parsed;
+    }
+    console.error('[TagCascade] TAG_CASCADE_RULES must be an array of { match, implies } rules, using defaults');
+  } catch (error) {
+    console.error('[TagCascade] Failed to parse TAG_CASCADE_RULES, using defaults:', error);
+  }
+
+  return DEFAULT_CASCADE_RULES;
+}
+
+const RULES = loadRules();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Keys implied by a single rule for a key, or [] when the rule doesn't match.
+ */
+function applyRule(rule: TagCascadeRule, key: string): string[] {
+  const pattern = new RegExp(`^${rule.match.split('*').map(escapeRegExp).join('(.*)')}$`);
+  const match = pattern.exec(key);
+
+  if (!match) {
+    return [];
+  }
+
+  const wildcard = match[1] ?? '';
+  return rule.implies.map(implied => implied.replace(/\*/g, wildcard));
+}
+
+/**
+ * The active cascade rules.
+ */
+export function getCascadeRules(): TagCascadeRule[] {
+  return RULES;
+}
+
+/**
+ * Expand keys through the cascade rules. Hashed keys (sk-...) are matched on
+ * the tag they stand for.
+ */
+export function expandCascade(keys: string[], rules: TagCascadeRule[] = RULES): TagCascadeResult {
+  const expanded = new Set(keys);
+  const cascaded: CascadedKey[] = [];
+  const queue = [...expanded];
+
+  while (queue.length > 0 && expanded.size < MAX_EXPANDED_KEYS) {
+    const key = queue.shift()!;
+    const tag = resolveSurrogateKey(key);
+
+    for (const rule of rules) {
+      for (const implied of applyRule(rule, tag)) {
+        if (expanded.has(implied) || expanded.size >= MAX_EXPANDED_KEYS) {
+          continue;
+        }
+
+        expanded.add(implied);
+        cascaded.push({ key: implied, implied_by: key, rule: rule.match });
+        queue.push(implied);
+      }
+    }
+  }
+
+  if (queue.length > 0) {
+    console.warn(`[TagCascade] Stopped expanding at ${MAX_EXPANDED_KEYS} keys`);
+  }
+
+  return { keys: [...expanded], cascaded };
+}
@@ -0,0 +1,239 @@
+/**
+ * Surrogate-Key Header Policy
+ *
+ * Turns the raw cache tags collected for a request into a Surrogate-Key
+ * header that fits within CDN header limits:
+ *
+ * 1. Tags longer than the per-key limit (or containing whitespace) are
+ *    replaced by a deterministic hash (`sk-<sha256 prefix>`)
+ * 2. If the header is still over the byte budget, fine-grained keys are
+ *    collapsed into their coarser parent keys (e.g. `post-123` → `post-list`)
+ * 3. As a last resort, trailing keys are dropped until the header fits
+ *
+ * Hashed keys are remembered in a process-wide registry so /api/revalidate
+ * can map a hashed key back to the original cache tag.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Rule collapsing keys matching `pattern` into a single `parent` key.
+ */
+export interface SurrogateKeyParentRule {
+  pattern: RegExp;
+  parent: string;
+}
+
+export interface SurrogateKeyPolicyOptions {
+  /** Maximum size of the full Surrogate-Key header value in bytes */
+  maxHeaderBytes?: number;
+  /** Maximum size of a single key before it is hashed */
+  maxKeyBytes?: number;
+  /** Collapse rules, applied in order until the header fits */
+  parentRules?: SurrogateKeyParentRule[];
+}
+
+export interface SurrogateKeyPolicyResult {
+  /** Final header value (space-separated keys) */
+  header: string;
+  /** Final keys in header order */
+  keys: string[];
+  /** Keys removed to stay within the budget (collapsed or truncated) */
+  dropped: string[];
+  /** Original tag → hashed key, for every tag that was hashed */
+  hashed: Record<string, string>;
+  /** Size of the header value in bytes */
+  bytes: number;
+}
+
+// Fastly limits: 16 KB for the whole header, 1 KB per key
+const DEFAULT_MAX_HEADER_BYTES = 16384;
+const DEFAULT_MAX_KEY_BYTES = 1024;
+
+const HASHED_KEY_PREFIX = 'sk-';
+
+/**
+ * Default collapse rules for the WordPress key scheme produced by
+ * generatePostSurrogateKeys() in lib/surrogate-keys/wordpress.ts.
+ */
+export const DEFAULT_PARENT_RULES: SurrogateKeyParentRule[] = [
+  { pattern: /^term-/, parent: 'post-list' },
+  { pattern: /^author-/, parent: 'post-list' },
+  { pattern: /^post-(?!list$)/, parent: 'post-list' },
+];
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const MAX_HEADER_BYTES = readPositiveInt(process.env.SURROGATE_KEY_MAX_BYTES, DEFAULT_MAX_HEADER_BYTES);
+const MAX_KEY_BYTES = readPositiveInt(process.env.SURROGATE_KEY_MAX_KEY_BYTES, DEFAULT_MAX_KEY_BYTES);
+
+// ============================================================================
+// Hashed key registry
+// ============================================================================
+
+const HASHED_KEY_REGISTRY_SYMBOL = Symbol.for('@nextjs-cache-test-app/hashed-surrogate-keys');
+const HASHED_KEY_REGISTRY_LIMIT = 10000;
+
+/**
+ * Get the process-wide hashed key → original tag registry.
+ * Shared through globalThis so route handlers see keys hashed by server.ts.
+ */
+function getHashedKeyRegistry(): Map<string, string> {
+  const registry = globalThis as typeof globalThis & {
+    [HASHED_KEY_REGISTRY_SYMBOL]?: Map<string, string>;
+  };
+
+  if (!registry[HASHED_KEY_REGISTRY_SYMBOL]) {
+    registry[HASHED_KEY_REGISTRY_SYMBOL] = new Map();
+  }
+
+  return registry[HASHED_KEY_REGISTRY_SYMBOL];
+}
+
+function rememberHashedKey(hashedKey: string, tag: string): void {
+  const registry = getHashedKeyRegistry();
+
+  if (registry.has(hashedKey)) {
+    return;
+  }
+
+  // Evict the oldest entry once the registry is full
+  if (registry.size >= HASHED_KEY_REGISTRY_LIMIT) {
+    const oldest = registry.keys().next().value;
+    if (oldest !== undefined) {
+      registry.delete(oldest);
+    }
+  }
+
+  registry.set(hashedKey, tag);
+}
+
+// ============================================================================
+// Key transforms
+// ============================================================================
+
+function byteLength(value: string): number {
+  return Buffer.byteLength(value, 'utf8');
+}
+
+function headerBytes(keys: string[]): number {
+  return byteLength(keys.join(' '));
+}
+
+/**
+ * Deterministically hash a cache tag into a short, header-safe key.
+ */
+export function hashSurrogateKey(tag: string): string {
+  const digest = createHash('sha256').update(tag).digest('hex').slice(0, 16);
+  return `${HASHED_KEY_PREFIX}${digest}`;
+}
+
+/**
+ * Map a cache tag to the key emitted in the Surrogate-Key header.
+ * Short tags are emitted as-is; long or whitespace-containing tags are hashed.
+ * Use this when purging the CDN for a tag that was revalidated at origin.
+ */
+export function toSurrogateKey(tag: string, maxKeyBytes: number = MAX_KEY_BYTES): string {
+  if (byteLength(tag) <= maxKeyBytes && !/\s/.test(tag)) {
+    return tag;
+  }
+
+  const hashedKey = hashSurrogateKey(tag);
+  rememberHashedKey(hashedKey, tag);
+  return hashedKey;
+}
+
+/**
+ * Map a Surrogate-Key back to the cache tag it was derived from.
+ * Returns the key unchanged when it is not a known hashed key.
+ */
+export function resolveSurrogateKey(key: string): string {
+  if (!key.startsWith(HASHED_KEY_PREFIX)) {
+    return key;
+  }
+
+  return getHashedKeyRegistry().get(key) ?? key;
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * Apply the byte budget, hashing and collapse rules to a list of cache tags.
+ */
+export function applySurrogateKeyPolicy(
+  tags: string[],
+  options: SurrogateKeyPolicyOptions = {}
+): SurrogateKeyPolicyResult {
+  const maxHeaderBytes = options.maxHeaderBytes ?? MAX_HEADER_BYTES;
+  const maxKeyBytes = options.maxKeyBytes ?? MAX_KEY_BYTES;
+  const parentRules = options.parentRules ?? DEFAULT_PARENT_RULES;
+
+  const hashed: Record<string, string> = {};
+  const dropped: string[] = [];
+
+  // Step 1: hash keys that are too long (or unsafe) for the header
+  let keys = [...new Set(tags.filter(tag => tag.length > 0))].map(tag => {
+    const key = toSurrogateKey(tag, maxKeyBytes);
+    if (key !== tag) {
+      hashed[tag] = key;
+    }
+    return key;
+  });
+  keys = [...new Set(keys)];
+
+  // Step 2: collapse fine-grained keys into their parents
+  for (const rule of parentRules) {
+    if (headerBytes(keys) <= maxHeaderBytes) {
+      break;
+    }
+
+    const children = keys.filter(key => key !== rule.parent && rule.pattern.test(key));
+    if (children.length === 0) {
+      continue;
+    }
+
+    dropped.push(...children);
+    keys = keys.filter(key => !children.includes(key));
+    if (!keys.includes(rule.parent)) {
+      keys.unshift(rule.parent);
+    }
+  }
+
+  // Step 3: drop trailing keys until the header fits
+  while (keys.length > 1 && headerBytes(keys) > maxHeaderBytes) {
+    dropped.push(keys.pop()!);
+  }
+
+  const header = keys.join(' ');
+
+  return {
+    header,
+    keys,
+    dropped,
+    hashed,
+    bytes: byteLength(header),
+  };
+}
+
+/**
+ * Format dropped keys for the X-Surrogate-Key-Dropped debug header,
+ * truncated so the debug header itself stays small.
+ */
+export function formatDroppedKeys(dropped: string[], maxBytes: number = 1024): string {
+  const shown: string[] = [];
+
+  for (const key of dropped) {
+    if (headerBytes([...shown, key]) > maxBytes) {
+      break;
+    }
+    shown.push(key);
+  }
+
+  const remaining = dropped.length - shown.length;
+  return remaining > 0 ? `${shown.join(' ')} (+${remaining} more)` : shown.join(' ');
+}
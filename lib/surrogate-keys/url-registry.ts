@@ -0,0 +1,72 @@
+/**
+ * URL Tag Registry
+ *
+ * Remembers, per public URL, the cache tags it emitted in its Surrogate-Key
+ * header and the cache entries it read while rendering. server.ts records
+ * every tagged page response; dry-run previews (lib/revalidation/impact.ts)
+ * use it to answer "which URLs would re-render if this tag or path were
+ * invalidated?".
+ *
+ * The registry is process-local and only knows URLs this instance has
+ * served since it started, so it is a lower bound on what the CDN caches.
+ * Shared through globalThis like the hashed key registry in policy.ts.
+ */
+
+import type { CacheLookup } from '../request-context';
+
+export interface UrlTagRecord {
+  /** Request pathname */
+  url: string;
+  /** Cache tags collected while rendering (before the header policy) */
+  tags: string[];
+  /** Cache entries read while rendering */
+  lookups: Pick<CacheLookup, 'layer' | 'key'>[];
+  lastSeen: number;
+}
+
+const URL_REGISTRY_SYMBOL = Symbol.for('@nextjs-cache-test-app/url-tags');
+const URL_REGISTRY_LIMIT = 5000;
+
+function getRegistry(): Map<string, UrlTagRecord> {
+  const registry = globalThis as typeof globalThis & {
+    [URL_REGISTRY_SYMBOL]?: Map<string, UrlTagRecord>;
+  };
+
+  if (!registry[URL_REGISTRY_SYMBOL]) {
+    registry[URL_REGISTRY_SYMBOL] = new Map();
+  }
+
+  return registry[URL_REGISTRY_SYMBOL];
+}
+
+/**
+ * Record the tags and cache lookups of a served URL.
+ * The most recently served URLs are kept; the oldest is evicted when full.
+ */
+export function recordUrlTags(url: string, tags: string[], lookups: CacheLookup[]): void {
+  const registry = getRegistry();
+
+  // Re-insert so Map order stays least → most recently served
+  registry.delete(url);
+
+  if (registry.size >= URL_REGISTRY_LIMIT) {
+    const oldest = registry.keys().next().value;
+    if (oldest !== undefined) {
+      registry.delete(oldest);
+    }
+  }
+
+  registry.set(url, {
+    url,
+    tags: [...new Set(tags)],
+    lookups: lookups.map(({ layer, key }) => ({ layer, key })),
+    lastSeen: Date.now(),
+  });
+}
+
+/**
+ * All recorded URLs, most recently served first.
+ */
+export function getRecordedUrls(): UrlTagRecord[] {
+  return [...getRegistry().values()].reverse();
+}
@@ -0,0 +1,81 @@
+/**
+ * WordPress Surrogate Keys
+ *
+ * The key scheme shared by the WordPress data layer (cache tags applied to
+ * fetched posts) and the revalidation webhook (tags invalidated when
+ * WordPress reports a change):
+ *
+ * - post-<id>, post-<slug>  the single post page
+ * - post-list               archives and the blog index
+ * - term-<id>               every post in a category or tag
+ * - author-<id>             every post by an author
+ *
+ * Aggregate keys implied by these (e.g. term → post-list) are declared in
+ * lib/surrogate-keys/cascade.ts.
+ */
+
+export interface WordPressPostKeyInput {
+  id: number;
+  slug?: string;
+  author?: number;
+  categories?: number[];
+  tags?: number[];
+}
+
+// WordPress renames trashed posts to `<slug>__trashed` to free the slug
+const TRASHED_SLUG_SUFFIX = '__trashed';
+
+/**
+ * Strip the `__trashed` suffix WordPress appends when a post is trashed,
+ * so the key matches the slug the post was cached under.
+ */
+export function normalizeWordPressSlug(slug: string): string {
+  return slug.endsWith(TRASHED_SLUG_SUFFIX)
+    ? slug.slice(0, -TRASHED_SLUG_SUFFIX.length)
+    : slug;
+}
+
+/**
+ * Generate surrogate keys for a WordPress post.
+ */
+export function generatePostSurrogateKeys(post: WordPressPostKeyInput): string[] {
+  const keys: string[] = [];
+
+  // Post-specific key
+  keys.push(`post-${post.id}`);
+  if (post.slug) {
+    keys.push(`post-${normalizeWordPressSlug(post.slug)}`);
+  }
+
+  // Post list key (for invalidating archives)
+  keys.push('post-list');
+
+  // Category keys
+  if (post.categories && Array.isArray(post.categories)) {
+    post.categories.forEach(categoryId => {
+      keys.push(`term-${categoryId}`);
+    });
+  }
+
+  // Tag keys
+  if (post.tags && Array.isArray(post.tags)) {
+    post.tags.forEach(tagId => {
+      keys.push(`term-${tagId}`);
+    });
+  }
+
+  // Author key
+  if (post.author) {
+    keys.push(`author-${post.author}`);
+  }
+
+  // Deduplicate and return
+  return [...new Set(keys)];
+}
+
+/**
+ * Generate surrogate keys for a WordPress category or tag.
+ */
+export function generateTermSurrogateKeys(termId: number): string[] {
+  return [`term-${termId}`];
+}
@@ -0,0 +1,246 @@
+/**
+ * Webhook Signature Verification
+ *
+ * Revalidation webhooks are authenticated with an HMAC-SHA256 signature:
+ *
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<hex HMAC of "<METHOD> <path>\n<timestamp>.<body>">
+ *
+ * where <path> includes the query string (e.g. `/api/revalidate?tag=post-list`)
+ * and <body> is the raw request body (empty for GET and DELETE). Binding the
+ * method and path means a signature is only valid for the request it was
+ * made for, not for every signed endpoint.
+ *
+ * - Signatures are compared in constant time
+ * - Timestamps outside WEBHOOK_SIGNATURE_TOLERANCE_SECONDS are rejected
+ * - Each signature is accepted once (in-memory nonce cache against replays,
+ *   shared by every route through globalThis)
+ * - WEBHOOK_SECRET_PREVIOUS (comma-separated) is accepted during rotation
+ *
+ * Unsigned mode (WEBHOOK_ALLOW_UNSIGNED=true) additionally accepts the raw
+ * secret in the X-Webhook-Secret header, for local development only.
+ * Production refuses to start in unsigned mode (see assertWebhookConfig).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const LEGACY_SECRET_HEADER = 'X-Webhook-Secret';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+export type WebhookAuthMethod = 'signature' | 'shared-secret' | 'unauthenticated';
+
+export type WebhookVerification =
+  | { ok: true; method: WebhookAuthMethod }
+  | { ok: false; status: number; error: string };
+
+interface HeadersLike {
+  get(name: string): string | null;
+}
+
+interface RequestLike {
+  method: string;
+  url: string;
+  headers: HeadersLike;
+}
+
+// Accepted clock skew between sender and server, in seconds
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * WEBHOOK_SIGNATURE_TOLERANCE_SECONDS as a positive integer, or null when it
+ * is set to anything else. Unset means the default.
+ */
+function readToleranceSeconds(): number | null {
+  const value = process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS;
+  if (!value) return DEFAULT_TOLERANCE_SECONDS;
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function getConfig() {
+  const secrets = [
+    process.env.WEBHOOK_SECRET,
+    ...(process.env.WEBHOOK_SECRET_PREVIOUS || '').split(','),
+  ]
+    .map(secret => secret?.trim())
+    .filter((secret): secret is string => !!secret);
+
+  return {
+    secrets,
+    allowUnsigned: process.env.WEBHOOK_ALLOW_UNSIGNED === 'true',
+    // An invalid value would disable the replay window, so it falls back to the default
+    toleranceSeconds: readToleranceSeconds() ?? DEFAULT_TOLERANCE_SECONDS,
+  };
+}
+
+/**
+ * Throw if the webhook configuration is invalid or unsafe for production.
+ * Called by server.ts at startup so a misconfigured instance never serves.
+ */
+export function assertWebhookConfig(): void {
+  const { secrets, allowUnsigned } = getConfig();
+
+  if (readToleranceSeconds() === null) {
+    throw new Error(
+      `WEBHOOK_SIGNATURE_TOLERANCE_SECONDS must be a positive integer (got '${process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS}')`
+    );
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    if (secrets.length === 0) {
+      console.warn('[Webhook] WARNING: WEBHOOK_SECRET not set - revalidation webhooks will be rejected unless WEBHOOK_ALLOW_UNSIGNED=true');
+    }
+    return;
+  }
+
+  if (allowUnsigned) {
+    throw new Error('WEBHOOK_ALLOW_UNSIGNED=true is not permitted in production');
+  }
+  if (secrets.length === 0) {
+    throw new Error('WEBHOOK_SECRET is required in production');
+  }
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Compute the signature header value for a request.
+ * Used by internal callers (e.g. scheduled jobs) and documented for senders.
+ *
+ * @param path - Path and query string, e.g. `/api/revalidate?tag=post-list`
+ * @param body - Raw request body ('' without one)
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  method: string,
+  path: string,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${method.toUpperCase()} ${path}\n${timestamp}.${body}`)
+    .digest('hex');
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Build the signature headers for a request, signed with the current secret.
+ */
+export function createWebhookHeaders(method: string, path: string, body = ''): Record<string, string> {
+  const [secret] = getConfig().secrets;
+
+  if (!secret) {
+    throw new Error('WEBHOOK_SECRET is required to sign webhook requests');
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, method, path, body),
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  // timingSafeEqual requires equal lengths; length itself is not secret
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// ============================================================================
+// Replay protection
+// ============================================================================
+
+const SEEN_SIGNATURES_SYMBOL = Symbol.for('@nextjs-cache-test-app/webhook-seen-signatures');
+
+/**
+ * Signature → expiry (ms). Entries only need to outlive the timestamp window.
+ * Kept on globalThis so every bundled route handler checks the same cache.
+ */
+function getSeenSignatures(): Map<string, number> {
+  const registry = globalThis as typeof globalThis & {
+    [SEEN_SIGNATURES_SYMBOL]?: Map<string, number>;
+  };
+
+  registry[SEEN_SIGNATURES_SYMBOL] ??= new Map();
+  return registry[SEEN_SIGNATURES_SYMBOL];
+}
+
+function pruneSeenSignatures(seenSignatures: Map<string, number>, now: number): void {
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  }
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a webhook request.
+ *
+ * @param request - Method, URL (for the path and query string) and headers
+ * @param body - Raw body, exactly as received ('' without one)
+ */
+export function verifyWebhookRequest(request: RequestLike, body = ''): WebhookVerification {
+  const { secrets, allowUnsigned, toleranceSeconds } = getConfig();
+  const { headers, method } = request;
+  const { pathname, search } = new URL(request.url);
+
+  if (secrets.length === 0) {
+    if (allowUnsigned) {
+      console.warn('[Webhook] Skipping authentication - WEBHOOK_SECRET not configured (unsigned mode)');
+      return { ok: true, method: 'unauthenticated' };
+    }
+    return { ok: false, status: 503, error: 'Webhook authentication is not configured' };
+  }
+
+  const signatureHeader = headers.get(SIGNATURE_HEADER);
+
+  if (!signatureHeader) {
+    const legacySecret = headers.get(LEGACY_SECRET_HEADER);
+    if (allowUnsigned && legacySecret && secrets.some(secret => safeEqual(legacySecret, secret))) {
+      return { ok: true, method: 'shared-secret' };
+    }
+    return { ok: false, status: 401, error: `Missing ${SIGNATURE_HEADER} header` };
+  }
+
+  const timestamp = parseInt(headers.get(TIMESTAMP_HEADER) || '', 10);
+  if (!Number.isFinite(timestamp)) {
+    return { ok: false, status: 401, error: `Missing or invalid ${TIMESTAMP_HEADER} header` };
+  }
+
+  const now = Date.now();
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { ok: false, status: 401, error: 'Webhook timestamp outside the allowed window' };
+  }
+
+  // Senders may include several signatures (comma-separated) while rotating
+  const candidates = signatureHeader.split(',').map(value => value.trim());
+  const valid = candidates.find(candidate =>
+    secrets.some(secret => safeEqual(candidate, signWebhookPayload(secret, timestamp, method, `${pathname}${search}`, body)))
+  );
+
+  if (!valid) {
+    return { ok: false, status: 401, error: 'Invalid webhook signature' };
+  }
+
+  const seenSignatures = getSeenSignatures();
+  pruneSeenSignatures(seenSignatures, now);
+  if (seenSignatures.has(valid)) {
+    return { ok: false, status: 409, error: 'Webhook already processed (replay rejected)' };
+  }
+  seenSignatures.set(valid, (timestamp + toleranceSeconds) * 1000 + 1000);
+
+  return { ok: true, method: 'signature' };
+}
@@ -0,0 +1,265 @@
+/**
+ * WordPress Webhook Payload Adapter
+ *
+ * Maps the payloads WordPress webhook plugins send on post and term changes
+ * to the surrogate keys in lib/surrogate-keys/wordpress.ts, so WordPress
+ * does not need to know our tag naming scheme.
+ *
+ * Post events (publish, update, trash, delete, status transitions):
+ *   {
+ *     "action": "post_updated",
+ *     "post_id": 123,
+ *     "post": { "ID": 123, "post_name": "new-slug", "post_status": "publish",
+ *               "post_type": "post", "post_author": "5", "post_category": [4],
+ *               "tags_input": [9] },
+ *     "post_before": { "post_name": "old-slug", "post_status": "publish",
+ *                      "post_category": [2] }
+ *   }
+ *
+ * Flat fields are accepted too: `id`, `slug`, `old_slug`, `old_status`,
+ * `new_status`, `author`, `categories`, `tags`, `old_categories`, `old_tags`.
+ *
+ * Term events (create, edit, delete):
+ *   { "action": "edited_term", "term_id": 4, "taxonomy": "category" }
+ *
+ * Beyond the keys generatePostSurrogateKeys() produces, the adapter also
+ * invalidates the post's previous slug when it changed (including the
+ * `__trashed` rename), the categories and tags the post was removed from,
+ * and handles unpublishing, which removes the post from archives without a
+ * new publish.
+ */
+
+import {
+  generatePostSurrogateKeys,
+  generateTermSurrogateKeys,
+  normalizeWordPressSlug,
+} from './surrogate-keys/wordpress';
+
+export type WordPressPostAction = 'publish' | 'update' | 'unpublish' | 'trash' | 'delete' | 'ignore';
+export type WordPressTermAction = 'create' | 'edit' | 'delete';
+
+export interface WordPressPostEvent {
+  type: 'post';
+  action: WordPressPostAction;
+  postId: number;
+  postType: string;
+  slug?: string;
+  oldSlug?: string;
+  status?: string;
+  oldStatus?: string;
+  authorId?: number;
+  categories: number[];
+  tags: number[];
+  /** Categories and tags before the change; the post left archives missing from the new lists */
+  oldCategories: number[];
+  oldTags: number[];
+}
+
+export interface WordPressTermEvent {
+  type: 'term';
+  action: WordPressTermAction;
+  termId: number;
+  taxonomy?: string;
+}
+
+export type WordPressWebhookEvent = WordPressPostEvent | WordPressTermEvent;
+
+export interface WordPressWebhookResult {
+  event: WordPressWebhookEvent;
+  /** Surrogate keys (cache tags) to revalidate */
+  surrogateKeys: string[];
+  /** Why the event produced no keys, if it did not */
+  reason?: string;
+}
+
+type Payload = Record<string, unknown>;
+
+// Post types rendered by this app; other types (pages, menus, revisions) carry no tags
+const CACHED_POST_TYPES = ['post'];
+
+const PUBLISHED_STATUS = 'publish';
+
+function asObject(value: unknown): Payload | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Payload) : undefined;
+}
+
+function asId(value: unknown): number | undefined {
+  const id = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof id === 'number' && Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Accept ID lists as arrays of numbers/strings or comma-separated strings.
+ * Non-numeric entries (e.g. tag names in tags_input) are ignored.
+ */
+function asIdList(value: unknown): number[] {
+  const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return items
+    .map(item => asId(typeof item === 'string' ? item.trim() : item))
+    .filter((id): id is number => id !== undefined);
+}
+
+function asNonEmptyIdList(value: unknown): number[] | undefined {
+  const ids = asIdList(value);
+  return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * First defined value among the candidate fields of the given objects.
+ */
+function pick<T>(
+  sources: Array<Payload | undefined>,
+  fields: string[],
+  convert: (value: unknown) => T | undefined
+): T | undefined {
+  for (const source of sources) {
+    if (!source) continue;
+    for (const field of fields) {
+      const value = convert(source[field]);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+function getAction(body: Payload): string {
+  return (asString(body.action) || asString(body.event) || asString(body.hook) || '').toLowerCase();
+}
+
+function isTermPayload(body: Payload, action: string): boolean {
+  return action.includes('term') || (body.term_id !== undefined && body.post_id === undefined);
+}
+
+function parseTermEvent(body: Payload, action: string): WordPressTermEvent | null {
+  const term = asObject(body.term);
+  const termId = pick([body, term], ['term_id', 'id'], asId);
+
+  if (termId === undefined) {
+    return null;
+  }
+
+  return {
+    type: 'term',
+    action: action.includes('delete') ? 'delete' : action.includes('create') ? 'create' : 'edit',
+    termId,
+    taxonomy: pick([body, term], ['taxonomy'], asString),
+  };
+}
+
+/**
+ * Work out what happened to the post from the explicit action name, falling
+ * back to the status transition.
+ */
+function getPostAction(action: string, status?: string, oldStatus?: string): WordPressPostAction {
+  if (action.includes('delete')) return 'delete';
+  if (action.includes('trash') || status === 'trash') return 'trash';
+
+  const wasPublished = oldStatus === PUBLISHED_STATUS;
+  const isPublished = status === PUBLISHED_STATUS;
+
+  if (wasPublished && status !== undefined && !isPublished) return 'unpublish';
+  if (isPublished && oldStatus !== undefined && !wasPublished) return 'publish';
+  if (isPublished || wasPublished) return action.includes('publish') ? 'publish' : 'update';
+
+  // Delete/trash aside, a post that was never public has nothing cached.
+  // Without any status information, assume it might have been.
+  return status === undefined && oldStatus === undefined ? 'update' : 'ignore';
+}
+
+function parsePostEvent(body: Payload, action: string): WordPressPostEvent | null {
+  const post = asObject(body.post);
+  const before = asObject(body.post_before);
+
+  const postId = pick([body, post], ['post_id', 'ID', 'id'], asId);
+  if (postId === undefined) {
+    return null;
+  }
+
+  const status = pick([body, post], ['new_status', 'post_status', 'status'], asString);
+  const oldStatus = pick([body], ['old_status'], asString) ?? pick([before], ['post_status', 'status'], asString);
+  const postType = pick([body, post], ['post_type', 'type'], asString) || 'post';
+
+  return {
+    type: 'post',
+    action: CACHED_POST_TYPES.includes(postType) ? getPostAction(action, status, oldStatus) : 'ignore',
+    postId,
+    postType,
+    slug: pick([body, post], ['slug', 'post_name'], asString),
+    oldSlug: pick([body], ['old_slug'], asString) ?? pick([before], ['post_name', 'slug'], asString),
+    status,
+    oldStatus,
+    authorId: pick([body, post], ['author', 'post_author'], asId),
+    categories: pick([body, post], ['categories', 'post_category'], asNonEmptyIdList) || [],
+    tags: pick([body, post], ['tags', 'tag_ids', 'tags_input'], asNonEmptyIdList) || [],
+    oldCategories: pick([body], ['old_categories'], asNonEmptyIdList)
+      ?? pick([before], ['categories', 'post_category'], asNonEmptyIdList) ?? [],
+    oldTags: pick([body], ['old_tags'], asNonEmptyIdList)
+      ?? pick([before], ['tags', 'tag_ids', 'tags_input'], asNonEmptyIdList) ?? [],
+  };
+}
+
+/**
+ * Parse a WordPress webhook payload. Returns null if the body is not a
+ * recognizable post or term event.
+ */
+export function parseWordPressWebhook(body: unknown): WordPressWebhookEvent | null {
+  const payload = asObject(body);
+  if (!payload) {
+    return null;
+  }
+
+  const action = getAction(payload);
+
+  return isTermPayload(payload, action)
+    ? parseTermEvent(payload, action)
+    : parsePostEvent(payload, action);
+}
+
+/**
+ * Derive the surrogate keys to revalidate for a WordPress event.
+ */
+export function getWordPressEventSurrogateKeys(event: WordPressWebhookEvent): WordPressWebhookResult {
+  if (event.type === 'term') {
+    return { event, surrogateKeys: generateTermSurrogateKeys(event.termId) };
+  }
+
+  if (event.action === 'ignore') {
+    const reason = CACHED_POST_TYPES.includes(event.postType)
+      ? `post was not published (${event.oldStatus ?? 'unknown'} → ${event.status ?? 'unknown'})`
+      : `post type '${event.postType}' is not cached`;
+    return { event, surrogateKeys: [], reason };
+  }
+
+  const keys = generatePostSurrogateKeys({
+    id: event.postId,
+    slug: event.slug,
+    author: event.authorId,
+    categories: event.categories,
+    tags: event.tags,
+  });
+
+  // The page was cached under the previous slug; after a rename (or the
+  // `__trashed` rename on trash) that key would otherwise never be purged
+  if (event.oldSlug) {
+    const oldSlugKey = `post-${normalizeWordPressSlug(event.oldSlug)}`;
+    if (!keys.includes(oldSlugKey)) {
+      keys.push(oldSlugKey);
+    }
+  }
+
+  // Archives of terms the post was removed from still list it
+  for (const termId of [...event.oldCategories, ...event.oldTags]) {
+    const termKey = `term-${termId}`;
+    if (!keys.includes(termKey)) {
+      keys.push(termKey);
+    }
+  }
+
+  return { event, surrogateKeys: keys };
+}
@@ -1,6 +1,8 @@
 import { cacheTag, cacheLife } from 'next/cache';
 import DOMPurify from 'isomorphic-dompurify';
 import type { BlogPost } from '../app/blogs/page';
+import { WORDPRESS_CACHE_LIFE } from './cache-control-policy';
+import { generatePostSurrogateKeys } from './surrogate-keys/wordpress';
 
 // WordPress REST API response types
 interface WPPost {
@@ -83,31 +85,7 @@ function sanitizeHTML(html: string): string {
  * Generate surrogate keys from WordPress post data
  */
 function generateSurrogateKeys(wpPost: WPPost): string[] {
-  const keys: string[] = [];
-
-  // Post-specific key
-  keys.push(`post-${wpPost.id}`);
-  keys.push(`post-${wpPost.slug}`);
-
-  // Post list key (for invalidating archives)
-  keys.push('post-list');
-
-  // Category keys
-  if (wpPost.categories && Array.isArray(wpPost.categories)) {
-    wpPost.categories.forEach(categoryId => {
-      keys.push(`term-${categoryId}`);
-    });
-  }
-
-  // Tag keys
-  if (wpPost.tags && Array.isArray(wpPost.tags)) {
-    wpPost.tags.forEach(tagId => {
-      keys.push(`term-${tagId}`);
-    });
-  }
-
-  // Deduplicate and return
-  const uniqueKeys = [...new Set(keys)];
+  const uniqueKeys = generatePostSurrogateKeys(wpPost);
 
   console.log(`[WordPress] Generated surrogate keys for post ${wpPost.id}:`, uniqueKeys.join(', '));
 
@@ -253,8 +231,7 @@ export async function fetchWordPressPostsWithMetadata(): Promise<{
   cachedAt: string;
 }> {
   'use cache';
-  // TODO: Make it infinite?
-  cacheLife({stale: Infinity, revalidate: Infinity, expire: Infinity});
+  cacheLife(WORDPRESS_CACHE_LIFE);
 
   const { posts, surrogateKeys } = await fetchAllWPPosts();
 
@@ -273,7 +250,7 @@ export async function fetchWordPressPostWithMetadata(slug: string): Promise<{
   cachedAt: string;
 }> {
   'use cache';
-  cacheLife({stale: Infinity, revalidate: Infinity, expire: Infinity});
+  cacheLife(WORDPRESS_CACHE_LIFE);
 
   const { post, surrogateKeys } = await fetchSingleWPPost(slug);
 
@@ -1,5 +1,6 @@
 import path from "path";
 import { fileURLToPath } from 'url';
+import { cacheLifeProfiles } from './cache-life-profiles.mjs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -22,20 +23,8 @@ const nextConfig = {
   cacheComponents: true,
 
   // Custom cache life profiles for testing 'use cache' directive
-  cacheLife: {
-    // Short-lived cache for testing (30s stale, 60s revalidate, 5min expire)
-    short: {
-      stale: 60,
-      revalidate: 60,
-      expire: 3600,
-    },
-    // Blog-style cache (1min stale, 5min revalidate, 1hr expire)
-    blog: {
-      stale: 60,
-      revalidate: 300,
-      expire: 3600,
-    },
-  },
+  // Defined in cache-life-profiles.mjs (also used for CDN cache headers)
+  cacheLife: cacheLifeProfiles,
 
   // logging: {
   //   fetches: {
@@ -1,17 +1,59 @@
-import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
 import { parse } from 'url';
 import next from 'next';
+import { runWithRequestContext } from './lib/request-context';
+import { publishCacheEvent } from './lib/cache-events';
+import { applySurrogateKeyPolicy, formatDroppedKeys } from './lib/surrogate-keys/policy';
+import { recordUrlTags } from './lib/surrogate-keys/url-registry';
+import {
+  getCacheControlHeaders,
+  getPageCacheProfile,
+  isUncacheableResponse,
+} from './lib/cache-control-policy';
+import { formatCacheDetail, formatServerTiming } from './lib/cache-diagnostics';
+import { drain, isDraining, trackRequest } from './lib/server-lifecycle';
+import { assertWebhookConfig } from './lib/webhook-signature';
+import { assertAdminAuthConfig } from './lib/admin-auth';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || 'localhost';
 const port = parseInt(process.env.PORT || '3000', 10);
 
+// Refuse to start with an unsafe webhook configuration (unsigned mode in production)
+try {
+  assertWebhookConfig();
+} catch (error) {
+  console.error(`[CustomServer] Invalid webhook configuration: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// Same for admin endpoint auth (ADMIN_AUTH_DISABLED in production)
+try {
+  assertAdminAuthConfig();
+} catch (error) {
+  console.error(`[CustomServer] Invalid admin auth configuration: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
 // Initialize Next.js
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
 const debug = process.env.SURROGATE_KEY_DEBUG === 'true';
 
+// Max time to wait for in-flight requests and after() work on SIGTERM.
+// Anything but a positive integer would leave drain() without a deadline.
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 25000;
+const parsedShutdownTimeoutMs = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '', 10);
+const shutdownTimeoutMs = Number.isFinite(parsedShutdownTimeoutMs) && parsedShutdownTimeoutMs > 0
+  ? parsedShutdownTimeoutMs
+  : DEFAULT_SHUTDOWN_TIMEOUT_MS;
+
+// Scheduled revalidation jobs (lib/revalidation/scheduler.ts), loaded once
+// Next.js is prepared: the coordinator imports next/cache, which needs the
+// AsyncLocalStorage Next.js installs at startup
+let scheduler: typeof import('./lib/revalidation/scheduler') | null = null;
+
 /**
  * Custom Node.js server for Surrogate-Key header propagation.
  *
@@ -24,13 +66,98 @@ const debug = process.env.SURROGATE_KEY_DEBUG === 'true';
  * - Custom server runs AFTER page execution (can capture tags)
  *
  * How it works:
- * 1. Page renders and calls cacheTag()
- * 2. Use-cache handler writes tags to globalThis.__pantheonSurrogateKeyTags
- * 3. Before response.writeHead() sends headers, we inject Surrogate-Key
+ * 1. Each request runs inside its own request context (AsyncLocalStorage)
+ * 2. Page renders and calls cacheTag()
+ * 3. Use-cache handler writes tags into the context of the request that owns it
+ * 4. Before response.writeHead() sends headers, we inject Surrogate-Key,
+ *    budgeted by lib/surrogate-keys/policy.ts to stay within CDN header limits
+ *
+ * Tags are never shared through globalThis, so concurrent requests cannot
+ * steal or wipe each other's tags.
+ */
+
+/**
+ * Apply Cache-Control / Surrogate-Control from the page's cacheLife profile
+ * (see PAGE_CACHE_PROFILES in lib/cache-control-policy.ts).
+ *
+ * Only successful GET/HEAD page responses are touched; API routes set their
+ * own headers, and responses Next.js marked private/no-store stay uncached.
+ */
+function applyPageCachePolicy(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+  statusCode: number
+): void {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return;
+  if (statusCode !== 200) return;
+  if (pathname.startsWith('/api/') || pathname.startsWith('/_next/')) return;
+
+  const profile = getPageCacheProfile(pathname);
+  if (!profile) return;
+
+  const existing = res.getHeader('Cache-Control');
+  if (isUncacheableResponse(existing === undefined ? undefined : String(existing))) return;
+
+  const headers = getCacheControlHeaders(profile);
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+
+  if (debug) {
+    console.log(`[CustomServer] Cache policy for ${pathname}: ${headers['Cache-Control']}`);
+  }
+}
+
+/**
+ * Graceful shutdown for redeploys.
+ *
+ * Enters drain mode (readiness fails), stops accepting connections, then waits
+ * for in-flight responses and registered background work (after() callbacks)
+ * up to SHUTDOWN_TIMEOUT_MS before exiting. Anything still running is logged.
  */
+async function shutdown(server: Server, signal: string): Promise<void> {
+  if (isDraining()) {
+    return;
+  }
+
+  console.log(`[CustomServer] ${signal} received, draining (timeout: ${shutdownTimeoutMs}ms)...`);
+
+  // No new scheduled jobs; one already running is drained as a background task
+  scheduler?.stopRevalidationScheduler();
+
+  const drained = drain(shutdownTimeoutMs);
+
+  // Stop accepting new connections; idle keep-alive sockets are closed now,
+  // busy ones once their response is sent (see Connection: close below)
+  server.close();
+  server.closeIdleConnections();
+
+  const report = await drained;
 
-app.prepare().then(() => {
-  createServer((req: IncomingMessage, res: ServerResponse) => {
+  if (report.completed) {
+    console.log(`[CustomServer] Drained in ${report.durationMs}ms`);
+  } else {
+    console.error(`[CustomServer] Drain timed out after ${report.durationMs}ms`);
+    for (const request of report.abandonedRequests) {
+      console.error(`[CustomServer] Abandoned request: ${request.method} ${request.path} (running ${Date.now() - request.startTime}ms)`);
+    }
+    for (const task of report.abandonedTasks) {
+      console.error(`[CustomServer] Abandoned background task: ${task.label} (running ${Date.now() - task.startTime}ms)`);
+    }
+  }
+
+  await app.close().catch(error => {
+    console.error('[CustomServer] Error closing Next.js app:', error);
+  });
+
+  process.exit(report.completed ? 0 : 1);
+}
+
+app.prepare().then(async () => {
+  scheduler = await import('./lib/revalidation/scheduler');
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
     const parsedUrl = parse(req.url!, true);
     const { pathname } = parsedUrl;
 
@@ -38,54 +165,116 @@ app.prepare().then(() => {
       console.log(`[CustomServer] Request: ${req.method} ${pathname}`);
     }
 
-    // Intercept response.writeHead to inject Surrogate-Key header
-    const originalWriteHead = res.writeHead;
+    trackRequest(req, res, pathname || '/');
 
-    res.writeHead = function(statusCode: number, ...args: any[]) {
-      // Extract tags from globalThis (written by use-cache handlers)
-      const tags = (globalThis as any).__pantheonSurrogateKeyTags || [];
+    // Append the peer address like a proxy would, so the client IP is read
+    // from the trusted end of the chain (see getClientIp in lib/admin-auth.ts)
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const peerAddress = req.socket.remoteAddress || 'unknown';
+    req.headers['x-forwarded-for'] = forwardedFor ? `${forwardedFor}, ${peerAddress}` : peerAddress;
 
-      if (tags.length > 0) {
-        // Deduplicate tags
-        const uniqueTags = [...new Set(tags)];
-        const surrogateKey = uniqueTags.join(' ');
+    // Ask clients to reconnect elsewhere once this response is sent
+    if (isDraining()) {
+      res.setHeader('Connection', 'close');
+    }
 
-        if (debug) {
-          console.log(`[CustomServer] Found ${uniqueTags.length} tags for ${pathname}`);
-          console.log(`[CustomServer] Tags: ${surrogateKey}`);
-        }
+    runWithRequestContext(pathname || '/', (context) => {
+      // Intercept response.writeHead to inject Surrogate-Key header
+      const originalWriteHead = res.writeHead;
+
+      res.writeHead = function(statusCode: number, ...args: any[]) {
+        // Tags written by use-cache handlers for this request only
+        const uniqueTags = [...new Set(context.tags)];
+        let surrogateKey: string;
+
+        if (uniqueTags.length > 0) {
+          const policy = applySurrogateKeyPolicy(uniqueTags);
+          surrogateKey = policy.header;
 
-        // Set Surrogate-Key header
-        res.setHeader('Surrogate-Key', surrogateKey);
+          if (debug) {
+            console.log(`[CustomServer] Found ${uniqueTags.length} tags for ${pathname}`);
+            console.log(`[CustomServer] Tags: ${surrogateKey} (${policy.bytes} bytes)`);
+          }
 
-        // Clear tags for next request
-        (globalThis as any).__pantheonSurrogateKeyTags = [];
+          if (policy.dropped.length > 0) {
+            console.warn(`[CustomServer] Surrogate-Key over budget for ${pathname}, dropped ${policy.dropped.length} keys`);
+          }
 
-        if (debug) {
-          res.setHeader('X-Cache-Tags-Count', String(uniqueTags.length));
+          // Set Surrogate-Key header
+          res.setHeader('Surrogate-Key', surrogateKey);
+
+          // Remember which URL emitted these tags, for dry-run impact previews
+          if (statusCode === 200 && (req.method === 'GET' || req.method === 'HEAD')) {
+            recordUrlTags(context.pathname, uniqueTags, context.lookups);
+          }
+
+          if (debug) {
+            res.setHeader('X-Cache-Tags-Count', String(uniqueTags.length));
+
+            if (policy.dropped.length > 0) {
+              res.setHeader('X-Surrogate-Key-Dropped', formatDroppedKeys(policy.dropped));
+            }
+            if (Object.keys(policy.hashed).length > 0) {
+              res.setHeader('X-Surrogate-Key-Hashed', String(Object.keys(policy.hashed).length));
+            }
+          }
+        } else {
+          // Fallback key when no tags captured
+          surrogateKey = 'nextjs-app';
+
+          if (debug) {
+            console.log(`[CustomServer] No tags captured for ${pathname}, using fallback: ${surrogateKey}`);
+          }
+
+          res.setHeader('Surrogate-Key', surrogateKey);
         }
-      } else {
-        // Fallback key when no tags captured
-        const fallbackKey = 'nextjs-app';
 
-        if (debug) {
-          console.log(`[CustomServer] No tags captured for ${pathname}, using fallback: ${fallbackKey}`);
+        // Feed the live cache dashboard (not its own stream, nor assets)
+        if (!context.pathname.startsWith('/_next/') && context.pathname !== '/api/cache-events') {
+          publishCacheEvent({
+            type: 'request',
+            at: new Date().toISOString(),
+            method: req.method || 'GET',
+            path: context.pathname,
+            route: context.route,
+            status: statusCode,
+            surrogate_key: surrogateKey,
+            lookups: {
+              hit: context.lookups.filter(lookup => lookup.result === 'hit').length,
+              stale: context.lookups.filter(lookup => lookup.result === 'stale').length,
+              miss: context.lookups.filter(lookup => lookup.result === 'miss').length,
+            },
+          });
         }
 
-        res.setHeader('Surrogate-Key', fallbackKey);
-      }
+        applyPageCachePolicy(req, res, context.pathname, statusCode);
 
-      // Call original writeHead
-      return originalWriteHead.apply(this, [statusCode, ...args] as any);
-    };
+        // Real cache lookups recorded by the cache handlers for this request
+        if (debug && context.lookups.length > 0) {
+          res.setHeader('Server-Timing', formatServerTiming(context.lookups));
+          res.setHeader('X-Nextjs-Cache-Detail', formatCacheDetail(context.lookups));
+        }
 
-    // Handle the request with Next.js
-    handle(req, res, parsedUrl);
-  }).listen(port, () => {
+        // Call original writeHead
+        return originalWriteHead.apply(this, [statusCode, ...args] as any);
+      };
+
+      // Handle the request with Next.js
+      handle(req, res, parsedUrl);
+    });
+  });
+
+  server.listen(port, () => {
     console.log(`> Ready on http://${hostname}:${port}`);
     console.log(`> Environment: ${dev ? 'development' : 'production'}`);
     if (debug) {
       console.log(`> Surrogate-Key debug logging: ENABLED`);
     }
+
+    // Scheduled revalidation jobs run in this process (persisted across restarts)
+    scheduler?.startRevalidationScheduler();
   });
+
+  process.once('SIGTERM', () => void shutdown(server, 'SIGTERM'));
+  process.once('SIGINT', () => void shutdown(server, 'SIGINT'));
 });
@@ -2,6 +2,10 @@
 // Uses @pantheon-systems/nextjs-cache-handler cacheHandlers (plural) support
 
 import { createUseCacheHandler } from '@pantheon-systems/nextjs-cache-handler';
+import { collectRequestTags, recordCacheLookup } from './cache-request-context.mjs';
+import { getEdgePurger, isCoordinatedTag, registerCacheHandler } from './cache-handler-registry.mjs';
+import { publishEntryChange, toStorageName } from './cache-entry-events.mjs';
+import { countStreamBytes, measureCacheOperation, recordCacheOperation } from './cache-metrics.mjs';
 
 // Get the handler class based on environment
 const UseCacheHandlerClass = createUseCacheHandler({
@@ -11,11 +15,117 @@ const UseCacheHandlerClass = createUseCacheHandler({
 // Next.js expects an object with handler methods, so we instantiate the class
 const handler = new UseCacheHandlerClass();
 
-// Export the handler instance directly
-export default {
-  get: handler.get.bind(handler),
-  set: handler.set.bind(handler),
-  refreshTags: handler.refreshTags.bind(handler),
-  getExpiration: handler.getExpiration.bind(handler),
-  updateTags: handler.updateTags.bind(handler),
+// Prefix of the implicit tags Next.js derives from route paths
+const PATH_TAG_PREFIX = '_N_T_';
+
+/**
+ * Wrap the handler's edge clearer, which updateTags() calls in the background
+ * for every tag (surrogate keys) and path tag (URL paths). Tags the
+ * coordinator purges itself (see cache-handler-registry.mjs) are dropped; the
+ * rest go through the app's outbound proxy client once it is registered, so
+ * they are retried, authenticated and counted like every other purge.
+ */
+function wrapEdgeCacheClearer(clearer) {
+  return {
+    clearKeysInBackground(tags, context) {
+      const remaining = tags.filter(tag => !isCoordinatedTag(tag));
+      if (remaining.length === 0) return;
+
+      const purger = getEdgePurger();
+      if (purger) {
+        void purger.purgeTags(remaining);
+      } else {
+        clearer.clearKeysInBackground(remaining, context);
+      }
+    },
+    clearPathsInBackground(paths, context) {
+      const remaining = paths.filter(path => !isCoordinatedTag(`${PATH_TAG_PREFIX}${path}`));
+      if (remaining.length === 0) return;
+
+      const purger = getEdgePurger();
+      if (purger) {
+        void purger.purgePaths(remaining);
+      } else {
+        clearer.clearPathsInBackground(remaining, context);
+      }
+    },
+  };
+}
+
+if (handler.edgeCacheClearer) {
+  handler.edgeCacheClearer = wrapEdgeCacheClearer(handler.edgeCacheClearer);
+}
+
+// Every call is counted and timed for /api/metrics (see cache-metrics.mjs);
+// writes are reported to the cache dashboard (see cache-entry-events.mjs).
+// Tag invalidation marks entries stale rather than deleting them.
+const cacheHandlers = {
+  async get(cacheKey, softTags) {
+    const startTime = performance.now();
+    const entry = await handler.get(cacheKey, softTags);
+
+    let result = 'miss';
+    if (entry) {
+      // Served past its revalidate window (background regeneration pending)
+      const isStale = Date.now() - entry.timestamp > entry.revalidate * 1000;
+      result = isStale ? 'stale' : 'hit';
+      collectRequestTags(entry.tags);
+    }
+
+    const durationMs = performance.now() - startTime;
+    recordCacheLookup({ layer: 'cacheHandlers', key: cacheKey, result, durationMs });
+    recordCacheOperation({ layer: 'cacheHandlers', operation: 'get', result, durationMs });
+
+    return entry;
+  },
+  async set(cacheKey, pendingEntry) {
+    // Timed from when the entry resolves, so rendering is not counted
+    let storeStart = performance.now();
+
+    // Capture tags as soon as the entry resolves (cache miss path), and
+    // count the payload on a branch of its stream
+    const bytesCounted = pendingEntry.then(
+      (entry) => {
+        storeStart = performance.now();
+        collectRequestTags(entry.tags);
+
+        if (!(entry.value instanceof ReadableStream)) return undefined;
+        const [stored, counted] = entry.value.tee();
+        entry.value = stored;
+        return countStreamBytes(counted);
+      },
+      () => undefined
+    );
+
+    let result = 'error';
+    try {
+      await handler.set(cacheKey, pendingEntry);
+      result = 'ok';
+      publishEntryChange('set', `use-cache:${toStorageName(cacheKey)}`);
+    } finally {
+      recordCacheOperation({
+        layer: 'cacheHandlers',
+        operation: 'set',
+        result,
+        durationMs: performance.now() - storeStart,
+        bytes: await bytesCounted.catch(() => undefined),
+      });
+    }
+  },
+  refreshTags() {
+    return measureCacheOperation('cacheHandlers', 'refreshTags', () => handler.refreshTags());
+  },
+  getExpiration(tags) {
+    return measureCacheOperation('cacheHandlers', 'getExpiration', () => handler.getExpiration(tags));
+  },
+  updateTags(tags, durations) {
+    return measureCacheOperation('cacheHandlers', 'updateTags', () => handler.updateTags(tags, durations), {
+      tags: tags.length,
+    });
+  },
 };
+
+// Registered wrapped, so coordinator invalidations are counted too
+registerCacheHandler('cacheHandlers', cacheHandlers);
+
+export default cacheHandlers;